@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+
+/**
+ * Build src/data/gazetteer.json from a GeoNames cities extract.
+ *
+ * Download a cities file (e.g. cities15000.zip) and admin1CodesASCII.txt from
+ * https://download.geonames.org/export/dump/, unzip it, then run:
+ *
+ *   npm run build:gazetteer -- cities15000.txt admin1CodesASCII.txt
+ *
+ * The admin1 file is optional; without it places have no state or region name.
+ * GeoNames data is licensed under CC BY 4.0, and the attribution is kept in the output.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const outputPath = path.join(__dirname, '..', 'src', 'data', 'gazetteer.json');
+
+// Places smaller than this are left out to keep the bundle small
+const MIN_POPULATION = 15000;
+
+// Alternate names kept per place; GeoNames lists hundreds for large cities
+const MAX_ALTERNATE_NAMES = 10;
+
+// Only alternate names in Latin script are kept, since those are what users type into the search box
+const LATIN_NAME = /^[\p{Script=Latin}\d\s'’.,-]+$/u;
+
+const [citiesPath, admin1Path] = process.argv.slice(2);
+
+if (!citiesPath) {
+  console.error('Usage: node scripts/build-gazetteer.js <citiesNNNN.txt> [admin1CodesASCII.txt]');
+  process.exit(1);
+}
+
+function readRows(filePath) {
+  return fs.readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => line.split('\t'));
+}
+
+// admin1CodesASCII.txt: "US.MA" -> "Massachusetts"
+const admin1Names = new Map();
+if (admin1Path) {
+  for (const [code, name] of readRows(admin1Path)) {
+    admin1Names.set(code, name);
+  }
+}
+
+// Columns of the GeoNames main table, see the readme at download.geonames.org
+const places = [];
+for (const row of readRows(citiesPath)) {
+  const [geonameId, name, asciiName, alternateNames, latitude, longitude, , , countryCode, , admin1Code, , , , population] = row;
+
+  if (Number(population) < MIN_POPULATION) {
+    continue;
+  }
+
+  const alternates = new Set([asciiName, ...alternateNames.split(',')]);
+  alternates.delete(name);
+  alternates.delete('');
+
+  const place = {
+    geonameId: Number(geonameId),
+    name,
+    alternateNames: Array.from(alternates).filter((alternate) => LATIN_NAME.test(alternate)).slice(0, MAX_ALTERNATE_NAMES),
+    admin1: admin1Names.get(`${countryCode}.${admin1Code}`),
+    country: countryCode,
+    lat: Number(latitude),
+    lng: Number(longitude),
+    population: Number(population)
+  };
+  if (place.alternateNames.length === 0) delete place.alternateNames;
+  if (!place.admin1) delete place.admin1;
+
+  places.push(place);
+}
+
+// Largest places first, so ties in the search ranking favour them without re-sorting
+places.sort((a, b) => b.population - a.population);
+
+const gazetteer = {
+  attribution: 'Place data from GeoNames (https://www.geonames.org), licensed under CC BY 4.0',
+  places
+};
+
+// One place per line keeps the file reviewable in diffs
+const placeLines = places.map((place) => `    ${JSON.stringify(place)}`).join(',\n');
+fs.writeFileSync(
+  outputPath,
+  `{\n  "attribution": ${JSON.stringify(gazetteer.attribution)},\n  "places": [\n${placeLines}\n  ]\n}\n`
+);
+
+console.log(`✅ Wrote ${places.length} places to ${path.relative(process.cwd(), outputPath)}`);
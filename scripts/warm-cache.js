@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+/**
+ * Warm the event tile cache through a running server's /api/cache/warm route,
+ * so tiles are fetched with the server's event source and Wikidata rate limits.
+ *
+ *   CACHE_ADMIN_TOKEN=... npm run warm-cache -- [options]
+ *
+ * Options:
+ *   --url <url>          Server to warm (default: http://localhost:3000)
+ *   --locations <file>   JSON array of { name, lat, lng, radius } (default: the server's warm locations)
+ *   --popular <n>        Number of most searched tiles to warm (default: the server's default)
+ *   --lang <codes>       Language chain for the locations, e.g. de,en
+ *   --refresh            Fetch tiles again even if they are cached
+ *
+ * Exits with status 1 if any tile failed, so schedulers can alert on it.
+ */
+
+const fs = require('fs');
+
+function parseArgs(argv) {
+  const options = { url: 'http://localhost:3000', body: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '--url':
+        options.url = value();
+        break;
+      case '--locations':
+        options.body.locations = JSON.parse(fs.readFileSync(value(), 'utf-8'));
+        break;
+      case '--popular':
+        options.body.popular = Number(value());
+        break;
+      case '--lang':
+        options.body.lang = value();
+        break;
+      case '--refresh':
+        options.body.refresh = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}`);
+    }
+  }
+  return options;
+}
+
+function formatProgress(event) {
+  const prefix = `[${event.done}/${event.total}]`;
+  const where = `${event.tile} (${event.target}, ${event.languages})`;
+  const seconds = (event.durationMs / 1000).toFixed(1);
+  if (event.status === 'failed') {
+    return `${prefix} ❌ ${where} failed after ${seconds}s: ${event.error}`;
+  }
+  return `${prefix} ${event.status === 'fetched' ? '✅ fetched' : '⏭️  cached '} ${where}: ${event.items} events in ${seconds}s`;
+}
+
+async function main() {
+  const token = process.env.CACHE_ADMIN_TOKEN;
+  if (!token) {
+    throw new Error('Set CACHE_ADMIN_TOKEN to the server\'s admin token.');
+  }
+
+  const { url, body } = parseArgs(process.argv.slice(2));
+  const response = await fetch(new URL('/api/cache/warm', url), {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(`Warming request failed: ${response.status} ${data.error || response.statusText}`);
+  }
+
+  // The route streams one JSON event per line
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let failed = 0;
+  let finished = false;
+
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop();
+
+    for (const line of lines.filter(Boolean)) {
+      const event = JSON.parse(line);
+      if (event.type === 'start') {
+        console.log(`🔥 Warming ${event.tiles} tiles for ${event.source}\n`);
+      } else if (event.type === 'tile') {
+        if (event.status === 'failed') failed++;
+        console.log(formatProgress(event));
+      } else if (event.type === 'done') {
+        finished = true;
+        console.log(`\n🎉 Done in ${(event.durationMs / 1000).toFixed(1)}s: ${event.fetched} fetched, ${event.cached} already cached, ${event.failed} failed`);
+      } else if (event.type === 'error') {
+        throw new Error(`Warming stopped: ${event.error}`);
+      }
+    }
+  }
+
+  if (!finished) {
+    throw new Error('Warming stopped before it finished; the connection was closed.');
+  }
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminToken } from '@/lib/admin-auth'
+import { parseBoundingBox } from '@/lib/geo'
+import { getEventSource } from '@/lib/event-sources'
+import { invalidateTileCache } from '@/lib/tile-cache'
+import { ValidationError, problemResponse } from '@/lib/errors'
+
+/**
+ * Remove cached tiles of the configured event source, e.g. after Wikidata edits.
+ * Takes an optional `bbox` to only remove tiles intersecting it, and `expired=true`
+ * to only remove entries past their TTL. Requires the CACHE_ADMIN_TOKEN as a bearer token.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const authError = checkAdminToken(request)
+    if (authError) {
+      return authError
+    }
+
+    const { searchParams } = new URL(request.url)
+    const bboxResult = searchParams.has('bbox') ? parseBoundingBox(searchParams.get('bbox') || '') : null
+    if (bboxResult && 'error' in bboxResult) {
+      return problemResponse(new ValidationError(bboxResult.error))
+    }
+
+    const source = getEventSource().name
+    const removed = await invalidateTileCache({
+      source,
+      bbox: bboxResult?.bbox,
+      expiredOnly: searchParams.get('expired') === 'true'
+    })
+    console.log(`Tile cache: removed ${removed} entries for ${source}`)
+
+    return NextResponse.json({ source, removed })
+  } catch (error) {
+    console.error('Cache API error:', error)
+    return problemResponse(error, 'Failed to invalidate the cache')
+  }
+}
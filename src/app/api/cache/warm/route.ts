@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminToken } from '@/lib/admin-auth'
+import { WarmPlan, getDefaultWarmPlan, parseWarmPlan, warmCache } from '@/lib/cache-warming'
+import { getTileCacheStore } from '@/lib/tile-cache'
+import { ConflictError, ValidationError, problemResponse } from '@/lib/errors'
+
+// Warming many tiles can take minutes on a cold cache
+export const maxDuration = 300
+
+/**
+ * Run a warming plan and stream its progress as newline-delimited JSON,
+ * one WarmProgressEvent per line
+ */
+function streamWarming(plan: WarmPlan): Response {
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+      try {
+        await warmCache(plan, send)
+      } catch (error) {
+        console.error('Cache warming error:', error)
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Cache warming failed' })
+      } finally {
+        controller.close()
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  })
+}
+
+/**
+ * Checks shared by both methods: the admin token, and a tile cache to warm
+ */
+function checkWarmingRequest(request: NextRequest): NextResponse | null {
+  const authError = checkAdminToken(request)
+  if (authError) {
+    return authError
+  }
+  if (!getTileCacheStore()) {
+    return problemResponse(new ConflictError('Cache warming needs a tile cache. Set TILE_CACHE_STORE to "file" or "supabase".'))
+  }
+  return null
+}
+
+/**
+ * Warm the tile cache for the given locations and most searched tiles, e.g.
+ * {"locations": [{"name": "Boston", "lat": 42.36, "lng": -71.06}], "popular": 20, "lang": "en", "refresh": false}.
+ * Requires the CACHE_ADMIN_TOKEN as a bearer token.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const requestError = checkWarmingRequest(request)
+    if (requestError) {
+      return requestError
+    }
+
+    let body: unknown
+    try {
+      // An empty body runs the default plan
+      const text = await request.text()
+      body = text ? JSON.parse(text) : {}
+    } catch {
+      return problemResponse(new ValidationError('Request body must be valid JSON.', 'invalid_json'))
+    }
+
+    const planResult = await parseWarmPlan(body)
+    if ('error' in planResult) {
+      return problemResponse(new ValidationError(planResult.error))
+    }
+
+    return streamWarming(planResult.plan)
+  } catch (error) {
+    console.error('Cache warming API error:', error)
+    return problemResponse(error, 'Failed to start cache warming')
+  }
+}
+
+/**
+ * Warm the default locations and most searched tiles, for schedulers that can only send GET requests
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const requestError = checkWarmingRequest(request)
+    if (requestError) {
+      return requestError
+    }
+
+    return streamWarming(await getDefaultWarmPlan())
+  } catch (error) {
+    console.error('Cache warming API error:', error)
+    return problemResponse(error, 'Failed to start cache warming')
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { runSparqlQuery, getSparqlClientStatus, SparqlError } from '@/lib/sparql-client'
 
 /**
  * Debug endpoint to test Wikidata connectivity
@@ -73,60 +74,58 @@ export async function GET(request: NextRequest) {
         description = 'Time properties test'
         break
         
+      case 'status':
+        // Report the shared SPARQL client state without querying Wikidata
+        return NextResponse.json({
+          success: true,
+          test: testType,
+          client: getSparqlClientStatus()
+        })
+        
       default:
         return NextResponse.json(
-          { error: 'Invalid test type. Use: basic, coordinates, or time' },
+          { error: 'Invalid test type. Use: basic, coordinates, wikipedia, time, or status' },
           { status: 400 }
         )
     }
     
-    const url = `https://query.wikidata.org/sparql?query=${encodeURIComponent(testQuery)}&format=json`
-    
     console.log(`Debug test: ${description}`)
-    console.log('Query URL:', url)
     
     const startTime = Date.now()
     
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Places-History-App/1.0 (https://github.com/your-repo)',
-        'Accept': 'application/sparql-results+json'
-      },
-      signal: AbortSignal.timeout(30000) // 30 second timeout
-    })
-    
-    const responseTime = Date.now() - startTime
-    
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Debug test failed:', response.status, errorText)
+    try {
+      // Bypass the stale cache so the test reflects live connectivity
+      const { data, attempts } = await runSparqlQuery(testQuery, { allowStale: false })
+      const responseTime = Date.now() - startTime
+      console.log('Debug test successful:', data)
+      
+      return NextResponse.json({
+        success: true,
+        test: testType,
+        description,
+        responseTime,
+        attempts,
+        client: getSparqlClientStatus(),
+        resultCount: data.results.bindings.length,
+        sampleResults: data.results.bindings.slice(0, 2),
+        fullResponse: data
+      })
+    } catch (error) {
+      const responseTime = Date.now() - startTime
+      console.error('Debug test failed:', error)
       
       return NextResponse.json({
         success: false,
         test: testType,
         description,
-        status: response.status,
-        statusText: response.statusText,
+        status: error instanceof SparqlError ? error.status : undefined,
+        retryAfterMs: error instanceof SparqlError ? error.retryAfterMs : undefined,
         responseTime,
-        error: errorText,
-        headers: Object.fromEntries(response.headers.entries())
+        client: getSparqlClientStatus(),
+        error: error instanceof Error ? error.message : 'Unknown error'
       })
     }
     
-    const data = await response.json()
-    console.log('Debug test successful:', data)
-    
-    return NextResponse.json({
-      success: true,
-      test: testType,
-      description,
-      status: response.status,
-      responseTime,
-      resultCount: data.results?.bindings?.length || 0,
-      sampleResults: data.results?.bindings?.slice(0, 2) || [],
-      fullResponse: data
-    })
-    
   } catch (error) {
     console.error('Debug endpoint error:', error)
     
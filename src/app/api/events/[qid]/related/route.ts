@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isQid } from '@/lib/event-detail'
+import { parseLanguageParam } from '@/lib/languages'
+import { findRelatedEvents } from '@/lib/related-events'
+import { NotFoundError, ValidationError, problemResponse } from '@/lib/errors'
+
+/**
+ * Events related to one event, best first: linked through part-of/has-part,
+ * the same conflict or participants, succession, or within a few km of it.
+ * Each feature carries its `relation`; takes the same `lang` chain as GET /api/events.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ qid: string }> }) {
+  try {
+    const { qid } = await params
+    const { searchParams } = new URL(request.url)
+
+    if (!isQid(qid)) {
+      return problemResponse(new ValidationError('Invalid event id. Use a Wikidata item id such as Q10806.'))
+    }
+
+    const languageResult = parseLanguageParam(searchParams.get('lang'))
+    if ('error' in languageResult) {
+      return problemResponse(new ValidationError(languageResult.error))
+    }
+
+    const related = await findRelatedEvents(qid, languageResult.languages)
+    if (!related) {
+      return problemResponse(new NotFoundError(`Event ${qid} not found.`))
+    }
+
+    return NextResponse.json(related)
+  } catch (error) {
+    console.error('Related events API error:', error)
+    return problemResponse(error, 'Failed to fetch related events')
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEventDetail, isQid } from '@/lib/event-detail'
+import { parseLanguageParam } from '@/lib/languages'
+import { NotFoundError, ValidationError, problemResponse } from '@/lib/errors'
+
+/**
+ * Full details of one event: all dates, participants, location, part-of,
+ * follows/followed-by, images, coordinates and sitelinks.
+ * Takes the same `lang` fallback chain as GET /api/events.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ qid: string }> }) {
+  try {
+    const { qid } = await params
+    const { searchParams } = new URL(request.url)
+
+    if (!isQid(qid)) {
+      return problemResponse(new ValidationError('Invalid event id. Use a Wikidata item id such as Q10806.'))
+    }
+
+    const languageResult = parseLanguageParam(searchParams.get('lang'))
+    if ('error' in languageResult) {
+      return problemResponse(new ValidationError(languageResult.error))
+    }
+
+    const detail = await getEventDetail(qid, languageResult.languages)
+    if (!detail) {
+      return problemResponse(new NotFoundError(`Event ${qid} not found.`))
+    }
+
+    return NextResponse.json(detail)
+  } catch (error) {
+    console.error('Event detail API error:', error)
+    return problemResponse(error, 'Failed to fetch event details')
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CALENDAR_CONFIG } from '@/lib/config'
+import { findEvents, parseAreaParams, parseSearchQuery } from '@/lib/event-search'
+import { toAnniversaryCalendar } from '@/lib/event-calendar'
+import { ValidationError, problemResponse } from '@/lib/errors'
+
+// Longest accepted calendar name
+const MAX_NAME_LENGTH = 100
+
+/**
+ * iCalendar feed with a yearly recurring all-day event on the anniversary of
+ * every day-precise event in the area, for subscribing in a calendar app.
+ * Takes the same area, time, filter and language parameters as GET /api/events,
+ * plus an optional calendar `name`; results are not paginated.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const areaResult = parseAreaParams(searchParams)
+    if ('error' in areaResult) {
+      return problemResponse(new ValidationError(areaResult.error))
+    }
+
+    const queryResult = parseSearchQuery(searchParams, 'date')
+    if ('error' in queryResult) {
+      return problemResponse(new ValidationError(queryResult.error))
+    }
+
+    const name = searchParams.get('name')?.trim() || 'Historical anniversaries'
+    if (name.length > MAX_NAME_LENGTH) {
+      return problemResponse(new ValidationError(`Calendar name too long. Maximum allowed is ${MAX_NAME_LENGTH} characters.`))
+    }
+
+    const features = await findEvents(areaResult.area, queryResult.query)
+    console.log(`Serving anniversaries of up to ${features.length} events as iCalendar`)
+
+    return new NextResponse(toAnniversaryCalendar(features, name), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="anniversaries.ics"',
+        'Cache-Control': `public, max-age=${CALENDAR_CONFIG.REFRESH_HOURS * 60 * 60}`
+      }
+    })
+  } catch (error) {
+    console.error('Anniversaries API error:', error)
+    return problemResponse(error, 'Failed to fetch historical events')
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ClusterFeature, ClustersResponse, EventFeature } from '@/types/events'
+import { clusterFeatures } from '@/lib/clustering'
+import { findEvents, parseAreaParams, parseSearchQuery } from '@/lib/event-search'
+import { resolveEventImages } from '@/lib/event-images'
+import { ValidationError, problemResponse } from '@/lib/errors'
+
+// Mapbox GL zoom levels
+const MAX_MAP_ZOOM = 22
+
+/**
+ * Events in a point or viewport area grouped into clusters for display at `zoom`.
+ * Takes the same area, time, filter and language parameters as GET /api/events;
+ * results are not paginated. Clusters are labelled with their most relevant
+ * event unless `sort` says otherwise. Events shown on their own get their
+ * images resolved like a page of GET /api/events, since the map's popups show them.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const zoom = Math.floor(Number(searchParams.get('zoom')))
+    if (!searchParams.get('zoom') || isNaN(zoom) || zoom < 0 || zoom > MAX_MAP_ZOOM) {
+      return problemResponse(new ValidationError(`Invalid zoom. zoom must be a number between 0 and ${MAX_MAP_ZOOM}.`))
+    }
+
+    const areaResult = parseAreaParams(searchParams)
+    if ('error' in areaResult) {
+      return problemResponse(new ValidationError(areaResult.error))
+    }
+
+    const queryResult = parseSearchQuery(searchParams, 'relevance')
+    if ('error' in queryResult) {
+      return problemResponse(new ValidationError(queryResult.error))
+    }
+
+    const features = await findEvents(areaResult.area, queryResult.query)
+    const clusters = clusterFeatures(features, zoom)
+    console.log(`Clustered ${features.length} events into ${clusters.length} features at zoom ${zoom}`)
+
+    const isCluster = (feature: ClusterFeature | EventFeature): feature is ClusterFeature => 'cluster' in feature.properties
+    const events = await resolveEventImages(clusters.filter((feature): feature is EventFeature => !isCluster(feature)))
+    const resolved = new Map(events.map((event) => [event.properties.id, event]))
+
+    const response: ClustersResponse = {
+      type: 'FeatureCollection',
+      features: clusters.map((feature) => (isCluster(feature) ? feature : resolved.get(feature.properties.id) ?? feature)),
+      zoom,
+      total: features.length
+    }
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Clusters API error:', error)
+    return problemResponse(error, 'Failed to fetch historical events')
+  }
+}
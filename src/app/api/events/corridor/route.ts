@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server'
+import { parseBufferParam, parseRoute } from '@/lib/corridor'
+import { searchEvents } from '@/lib/event-search'
+import { ValidationError, problemResponse } from '@/lib/errors'
+
+/**
+ * Search a corridor along a GeoJSON LineString sent as the request body.
+ * `buffer` is the corridor half-width in km; the other query parameters are the
+ * same as for GET /api/events. Results are ordered along the route by default.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const bufferResult = parseBufferParam(searchParams.get('buffer'))
+    if ('error' in bufferResult) {
+      return problemResponse(new ValidationError(bufferResult.error))
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return problemResponse(new ValidationError('Request body must be valid JSON.', 'invalid_json'))
+    }
+
+    const routeResult = parseRoute(body)
+    if ('error' in routeResult) {
+      const { code, message, details } = routeResult.error
+      return problemResponse(new ValidationError(message, code, details))
+    }
+
+    return await searchEvents(searchParams, { route: routeResult.route, bufferKm: bufferResult.bufferKm })
+  } catch (error) {
+    console.error('Corridor API error:', error)
+    return problemResponse(error, 'Failed to fetch historical events')
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server'
+import { formatMonthDay } from '@/lib/dates'
+import { parseAreaParams, searchEvents } from '@/lib/event-search'
+import { ValidationError, problemResponse } from '@/lib/errors'
+
+/**
+ * Events near a location that happened on a day of the year, in any year:
+ * GET /api/events with `onDay` defaulting to today (UTC) and `sort` to date.
+ * Pass `onDay=MM-DD` for another day, or for the visitor's local date.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const areaResult = parseAreaParams(searchParams)
+    if ('error' in areaResult) {
+      return problemResponse(new ValidationError(areaResult.error))
+    }
+
+    if (!searchParams.get('onDay')) {
+      const today = new Date()
+      searchParams.set('onDay', formatMonthDay({ month: today.getUTCMonth() + 1, day: today.getUTCDate() }))
+    }
+    if (!searchParams.get('sort')) {
+      searchParams.set('sort', 'date')
+    }
+
+    return await searchEvents(searchParams, areaResult.area)
+  } catch (error) {
+    console.error('On this day API error:', error)
+    return problemResponse(error, 'Failed to fetch historical events')
+  }
+}
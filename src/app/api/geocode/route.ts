@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { GEOCODING_CONFIG } from '@/lib/config'
+import { geocodePlace, parsePlaceText } from '@/lib/geocoding'
+import { parseLanguageParam } from '@/lib/languages'
+import { ValidationError, problemResponse } from '@/lib/errors'
+
+/**
+ * Find places by name, e.g. /api/geocode?q=Boston.
+ * Uses Mapbox geocoding when a token is configured and the bundled gazetteer otherwise.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const textResult = parsePlaceText(searchParams.get('q'))
+    if ('error' in textResult) {
+      return problemResponse(new ValidationError(textResult.error))
+    }
+
+    const limit = Number(searchParams.get('limit') || GEOCODING_CONFIG.DEFAULT_LIMIT)
+    if (!Number.isInteger(limit) || limit < 1 || limit > GEOCODING_CONFIG.MAX_LIMIT) {
+      return problemResponse(new ValidationError(`Invalid limit. limit must be an integer between 1 and ${GEOCODING_CONFIG.MAX_LIMIT}.`))
+    }
+
+    const languageResult = parseLanguageParam(searchParams.get('lang'))
+    if ('error' in languageResult) {
+      return problemResponse(new ValidationError(languageResult.error))
+    }
+
+    return NextResponse.json(await geocodePlace(textResult.text, languageResult.languages, limit))
+  } catch (error) {
+    console.error('Geocode API error:', error)
+    return problemResponse(error, 'Failed to search places')
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EventCategoryKey } from '@/types/events'
+import { EVENT_CATEGORY_KEYS } from '@/lib/categories'
+import { renderPlaceholderSvg } from '@/lib/placeholder-image'
+import { ValidationError, problemResponse } from '@/lib/errors'
+
+// Labels longer than this are cut off by the SVG anyway
+const MAX_LABEL_LENGTH = 200
+
+/**
+ * Placeholder image for an event without a picture, e.g.
+ * /api/images/placeholder?label=Battle%20of%20Hastings&category=battle
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const label = (searchParams.get('label') || '').trim().slice(0, MAX_LABEL_LENGTH)
+    const category = searchParams.get('category') || 'other'
+    if (!EVENT_CATEGORY_KEYS.includes(category as EventCategoryKey)) {
+      return problemResponse(new ValidationError(`Invalid category. Use one of: ${EVENT_CATEGORY_KEYS.join(', ')}.`))
+    }
+
+    return new NextResponse(renderPlaceholderSvg(label, category as EventCategoryKey), {
+      headers: {
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+        // The same parameters always render the same image
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        // Opened directly, the SVG must not run anything
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'"
+      }
+    })
+  } catch (error) {
+    console.error('Placeholder image error:', error)
+    return problemResponse(error, 'Failed to render the placeholder')
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { IMAGE_PROXY_CONFIG } from '@/lib/config'
+import { getProxiedImage, parseImageParams } from '@/lib/image-proxy'
+import { BadGatewayError, ValidationError, problemResponse } from '@/lib/errors'
+
+/**
+ * Serve a Wikimedia image from our own origin, resized to width `w`, e.g.
+ * /api/images?src=https://upload.wikimedia.org/...&w=320.
+ * Images are converted to WebP and cached on disk and by browsers.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+
+  const paramsResult = parseImageParams(searchParams)
+  if ('error' in paramsResult) {
+    return problemResponse(new ValidationError(paramsResult.error))
+  }
+
+  try {
+    const { data, etag } = await getProxiedImage(paramsResult.src, paramsResult.width)
+    const headers = {
+      'Cache-Control': `public, max-age=${IMAGE_PROXY_CONFIG.CACHE_MAX_AGE_SECONDS}, stale-while-revalidate=${IMAGE_PROXY_CONFIG.CACHE_MAX_AGE_SECONDS}`,
+      'ETag': `"${etag}"`
+    }
+
+    if (request.headers.get('if-none-match') === headers.ETag) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        ...headers,
+        'Content-Type': 'image/webp',
+        'Content-Length': String(data.length)
+      }
+    })
+  } catch (error) {
+    // The image could not be fetched or decoded; browsers fall back to a placeholder
+    console.error('Image proxy error:', error)
+    const response = problemResponse(new BadGatewayError('Failed to load the image'))
+    response.headers.set('Cache-Control', 'no-store')
+    return response
+  }
+}
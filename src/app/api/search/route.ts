@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SEARCH_CONFIG } from '@/lib/config'
+import { parseLanguageParam } from '@/lib/languages'
+import { parseSearchText, searchEventsByName } from '@/lib/name-search'
+import { ValidationError, problemResponse } from '@/lib/errors'
+
+/**
+ * Find events by label or alias anywhere in the world, e.g. /api/search?q=Battle%20of%20Brooklyn.
+ * Only events with coordinates and a date are returned, best matches first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const textResult = parseSearchText(searchParams.get('q'))
+    if ('error' in textResult) {
+      return problemResponse(new ValidationError(textResult.error))
+    }
+
+    const limit = Number(searchParams.get('limit') || SEARCH_CONFIG.DEFAULT_LIMIT)
+    if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_CONFIG.MAX_LIMIT) {
+      return problemResponse(new ValidationError(`Invalid limit. limit must be an integer between 1 and ${SEARCH_CONFIG.MAX_LIMIT}.`))
+    }
+
+    const languageResult = parseLanguageParam(searchParams.get('lang'))
+    if ('error' in languageResult) {
+      return problemResponse(new ValidationError(languageResult.error))
+    }
+
+    return NextResponse.json(await searchEventsByName(textResult.text, languageResult.languages, limit))
+  } catch (error) {
+    console.error('Search API error:', error)
+    return problemResponse(error, 'Failed to search historical events')
+  }
+}
@@ -1,13 +1,21 @@
 'use client'
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import dynamic from 'next/dynamic'
 
 import { EventsDrawer } from '@/components/EventsDrawer'
+import { EventSearch } from '@/components/EventSearch'
+import { PlaceSearch } from '@/components/PlaceSearch'
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute'
 import { UserProfile } from '@/components/auth/UserProfile'
-import { HistoricalEvent } from '@/types/events'
-import { DEFAULT_RADIUS_KM } from '@/lib/config'
+import { HistoricalEvent, EventListOptions, SearchMode, ClustersResponse, EventFeature } from '@/types/events'
+import { GeocodeResult } from '@/types/geocoding'
+import { CORRIDOR_CONFIG, DEFAULT_RADIUS_KM, GEOGRAPHIC_CONFIG } from '@/lib/config'
+import { BoundingBox, formatBoundingBox, getBoundingBoxRadius } from '@/lib/geo'
+import { getPreferredLanguages } from '@/lib/languages'
+import { formatMonthDay } from '@/lib/dates'
+import { ExportFormat } from '@/lib/event-export'
+import { getResponseError } from '@/lib/problem-details'
 
 // Dynamically import Mapbox to avoid SSR issues
 const MapComponentWithNoSSR = dynamic(() => import('@/components/MapComponent').then(mod => ({ default: mod.MapComponent })), {
@@ -15,50 +23,300 @@ const MapComponentWithNoSSR = dynamic(() => import('@/components/MapComponent').
   loading: () => <div className="w-full h-full bg-gray-100 animate-pulse flex items-center justify-center">Loading map...</div>
 })
 
+// Area to search: a point searched within the radius, the visible map viewport, or a corridor along a route
+type SearchArea = { lat: number; lng: number } | BoundingBox | { route: [number, number][]; bufferKm: number }
+
+// Corridor widths offered in route mode, in km on each side of the route
+const BUFFER_CHOICES = [1, 2, 5, 10, 25]
+
 export default function HomePage() {
   const [events, setEvents] = useState<HistoricalEvent[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Pagination state - nextCursor is null once the last page has been loaded
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [totalEvents, setTotalEvents] = useState(0)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  // Whether the listed search is still the current one, replaced each time the list is reloaded
+  const isListCurrentRef = useRef<() => boolean>(() => true)
+  const [isExporting, setIsExporting] = useState(false)
   const [selectedLocation, setSelectedLocation] = useState<{ lat: number; lng: number } | null>({ lat: 40.7128, lng: -74.0060 }) // Default to NYC
   // Use centralized configuration for easy radius management
   // Currently set to 10 miles (16.0934 km) for more focused local searches
   const [radius] = useState(DEFAULT_RADIUS_KM) // 10 miles radius converted to kilometers
+  const [listOptions, setListOptions] = useState<EventListOptions>({
+    sort: 'distance',
+    order: 'asc',
+    hasImage: false,
+    hasWikipedia: false,
+    onThisDay: false
+  })
+  const [searchMode, setSearchMode] = useState<SearchMode>('point')
+  const [viewportBounds, setViewportBounds] = useState<BoundingBox | null>(null)
+  // Route points in [lng, lat] order, added by clicking the map in route mode
+  const [routePoints, setRoutePoints] = useState<[number, number][]>([])
+  const [routeBufferKm, setRouteBufferKm] = useState<number>(CORRIDOR_CONFIG.DEFAULT_BUFFER_KM)
+  // Read by the map click handler, which the map captures once when it is created
+  const searchModeRef = useRef(searchMode)
+  searchModeRef.current = searchMode
+  // Whole-number map zoom, and the clustered markers the map shows for it
+  const [mapZoom, setMapZoom] = useState<number | null>(null)
+  const [clusters, setClusters] = useState<ClustersResponse['features'] | null>(null)
+  // Location the map flies to, e.g. a search result; a new object flies again to the same place
+  const [focusLocation, setFocusLocation] = useState<{ lat: number; lng: number } | null>(null)
+
+  // Viewport bounds are only tracked while searching the viewport, so the point search is unaffected by panning.
+  // A route needs at least two points before it can be searched.
+  const searchArea: SearchArea | null = useMemo(() => {
+    if (searchMode === 'viewport') return viewportBounds
+    if (searchMode === 'route') return routePoints.length >= 2 ? { route: routePoints, bufferKm: routeBufferKm } : null
+    return selectedLocation
+  }, [searchMode, viewportBounds, routePoints, routeBufferKm, selectedLocation])
+
+  const route = useMemo(
+    () => (searchMode === 'route' ? { coordinates: routePoints, bufferKm: routeBufferKm } : null),
+    [searchMode, routePoints, routeBufferKm]
+  )
+
+  // Query parameters for a search area and the current filters, shared by the list and the map clusters
+  const buildSearchParams = useCallback((area: SearchArea) => {
+    const params = new URLSearchParams()
+    if ('route' in area) {
+      params.set('buffer', area.bufferKm.toString())
+    } else if ('minLng' in area) {
+      params.set('bbox', formatBoundingBox(area))
+    } else {
+      params.set('lat', area.lat.toString())
+      params.set('lng', area.lng.toString())
+      params.set('r', radius.toString())
+    }
+    if (listOptions.hasImage) params.set('hasImage', 'true')
+    if (listOptions.hasWikipedia) params.set('hasWikipedia', 'true')
+    if (listOptions.onThisDay) {
+      // The visitor's local date, which can differ from the server's
+      const today = new Date()
+      params.set('onDay', formatMonthDay({ month: today.getMonth() + 1, day: today.getDate() }))
+    }
+    // Labels and Wikipedia links in the browser languages, falling back to English
+    params.set('lang', getPreferredLanguages().join(','))
+    return params
+  }, [radius, listOptions.hasImage, listOptions.hasWikipedia, listOptions.onThisDay])
+
+  // Request events for a search area, the current list options and an optional page cursor or export format.
+  // Corridor searches post the route to /api/events/corridor, everything else is a GET on /api/events.
+  const requestEvents = useCallback((area: SearchArea, { cursor, format }: { cursor?: string; format?: ExportFormat } = {}) => {
+    const params = buildSearchParams(area)
+    params.set('sort', listOptions.sort)
+    params.set('order', listOptions.order)
+    if (cursor) params.set('cursor', cursor)
+    if (format) params.set('format', format)
+
+    if ('route' in area) {
+      return fetch(`/api/events/corridor?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'LineString', coordinates: area.route })
+      })
+    }
+    return fetch(`/api/events?${params}`)
+  }, [buildSearchParams, listOptions.sort, listOptions.order])
+
+  // Anniversary calendar of the searched area, for subscribing in a calendar app; not available for routes
+  const calendarPath = useMemo(() => {
+    if (!searchArea || 'route' in searchArea) return null
+    const params = buildSearchParams(searchArea)
+    // The calendar already has every anniversary on its own day
+    params.delete('onDay')
+    return `/api/events/anniversaries.ics?${params}`
+  }, [searchArea, buildSearchParams])
+
+  // Load the first page for a search area. Responses that arrive after `isCurrent()` turns false
+  // belong to an area or list options the user has since left, and are dropped.
+  const fetchEvents = useCallback(async (area: SearchArea, isCurrent: () => boolean) => {
+    // The API rejects boxes it cannot cover within the maximum radius
+    if ('minLng' in area && getBoundingBoxRadius(area) > GEOGRAPHIC_CONFIG.MAX_RADIUS_KM) {
+      setIsLoading(false)
+      setError('Zoom in to search the current view')
+      setEvents([])
+      setNextCursor(null)
+      setTotalEvents(0)
+      return
+    }
 
-  const fetchEvents = useCallback(async (lat: number, lng: number) => {
     setIsLoading(true)
     setError(null)
 
     try {
-      const response = await fetch(`/api/events?lat=${lat}&lng=${lng}&r=${radius}`)
+      const response = await requestEvents(area)
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+        throw await getResponseError(response)
       }
       
       const data = await response.json()
+      if (!isCurrent()) return
       console.log('API response:', data)
       // Handle both FeatureCollection and direct array of features
       const features = data.features || data
       setEvents(features || [])
+      setNextCursor(data.next ?? null)
+      setTotalEvents(data.total ?? features?.length ?? 0)
     } catch (err) {
+      if (!isCurrent()) return
       setError(err instanceof Error ? err.message : 'Failed to fetch events')
       setEvents([])
+      setNextCursor(null)
+      setTotalEvents(0)
     } finally {
-      setIsLoading(false)
+      if (isCurrent()) setIsLoading(false)
+    }
+  }, [requestEvents])
+
+  // Append the next page of results for the current search area.
+  // A page that arrives after the area or list options changed belongs to the old list and is dropped.
+  const loadMoreEvents = useCallback(async () => {
+    if (!searchArea || !nextCursor) return
+    const isCurrent = isListCurrentRef.current
+    setIsLoadingMore(true)
+
+    try {
+      const response = await requestEvents(searchArea, { cursor: nextCursor })
+      
+      if (!response.ok) {
+        throw await getResponseError(response)
+      }
+      
+      const data = await response.json()
+      if (!isCurrent()) return
+      setEvents((previous) => [...previous, ...(data.features || [])])
+      setNextCursor(data.next ?? null)
+    } catch (err) {
+      if (!isCurrent()) return
+      setError(err instanceof Error ? err.message : 'Failed to load more events')
+    } finally {
+      if (isCurrent()) setIsLoadingMore(false)
+    }
+  }, [searchArea, nextCursor, requestEvents])
+
+  // Download every event of the current search in an export format, under the name the API gives it
+  const exportEvents = useCallback(async (format: ExportFormat) => {
+    if (!searchArea) return
+    setIsExporting(true)
+
+    try {
+      const response = await requestEvents(searchArea, { format })
+
+      if (!response.ok) {
+        throw await getResponseError(response)
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? `historical-events.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export events')
+    } finally {
+      setIsExporting(false)
     }
-  }, [radius])
+  }, [searchArea, requestEvents])
 
-  const handleMapClick = useCallback(async (lat: number, lng: number) => {
+  // In route mode a click adds the next route point; otherwise it starts a point search at the clicked location
+  const handleMapClick = useCallback((lat: number, lng: number) => {
+    if (searchModeRef.current === 'route') {
+      setRoutePoints((previous) => [...previous, [lng, lat]])
+      return
+    }
+    setSearchMode('point')
     setSelectedLocation({ lat, lng })
-    await fetchEvents(lat, lng)
-  }, [fetchEvents])
+  }, [])
 
-  // Fetch events for default location on component mount
+  // Route searches are listed in order along the route by default
+  const changeSearchMode = useCallback((mode: SearchMode) => {
+    setSearchMode(mode)
+    setListOptions((previous) => {
+      if (mode === 'route') return { ...previous, sort: 'route', order: 'asc' }
+      if (previous.sort === 'route') return { ...previous, sort: 'distance', order: 'asc' }
+      return previous
+    })
+  }, [])
+
+  // Picking a search result searches around it and flies the map there
+  const handleSearchSelect = useCallback((event: EventFeature) => {
+    const [lng, lat] = event.geometry.coordinates
+    changeSearchMode('point')
+    setSelectedLocation({ lat, lng })
+    setFocusLocation({ lat, lng })
+  }, [changeSearchMode])
+
+  // Picking a place works like clicking the map there, and flies the map to it
+  const handlePlaceSelect = useCallback((place: GeocodeResult) => {
+    changeSearchMode('point')
+    setSelectedLocation({ lat: place.lat, lng: place.lng })
+    setFocusLocation({ lat: place.lat, lng: place.lng })
+  }, [changeSearchMode])
+
+  // Fetch events whenever the search area changes, starting with the default location
   useEffect(() => {
-    if (selectedLocation) {
-      fetchEvents(selectedLocation.lat, selectedLocation.lng)
+    let isCurrent = true
+    // Pages still loading for the previous list are dropped along with it
+    isListCurrentRef.current = () => isCurrent
+    setIsLoadingMore(false)
+
+    if (searchArea) {
+      fetchEvents(searchArea, () => isCurrent)
+    } else if (searchMode === 'route') {
+      // Nothing to search until the route has two points
+      setIsLoading(false)
+      setEvents([])
+      setNextCursor(null)
+      setTotalEvents(0)
+    }
+
+    return () => {
+      isCurrent = false
+    }
+  }, [fetchEvents, searchArea, searchMode])
+
+  // Cluster the whole result set for the map, so it stays fast with thousands of events.
+  // Routes are narrow enough to show the listed events as they are.
+  useEffect(() => {
+    if (!searchArea || 'route' in searchArea || mapZoom === null) {
+      setClusters(null)
+      return
     }
-  }, [fetchEvents, selectedLocation])
+    if ('minLng' in searchArea && getBoundingBoxRadius(searchArea) > GEOGRAPHIC_CONFIG.MAX_RADIUS_KM) {
+      setClusters(null)
+      return
+    }
+
+    const params = buildSearchParams(searchArea)
+    params.set('zoom', mapZoom.toString())
+    let isCurrent = true
+
+    fetch(`/api/events/clusters?${params}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw await getResponseError(response)
+        }
+        return response.json()
+      })
+      .then((data: ClustersResponse) => {
+        if (isCurrent) setClusters(data.features)
+      })
+      .catch((err) => {
+        // The map falls back to markers for the listed events
+        console.error('Failed to fetch clusters:', err)
+        if (isCurrent) setClusters(null)
+      })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [searchArea, mapZoom, buildSearchParams])
 
   console.log('HomePage rendering, events count:', events.length)
   
@@ -67,8 +325,10 @@ export default function HomePage() {
       <div className="flex flex-col h-screen bg-gray-50">
         {/* Top Panel - spans across both map and events drawer */}
         <div className="bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
-          <div className="flex items-center">
+          <div className="flex items-center gap-6">
             <h1 className="text-xl font-semibold text-gray-900">Places History</h1>
+            <PlaceSearch onSelect={handlePlaceSelect} />
+            <EventSearch onSelect={handleSearchSelect} />
           </div>
           <UserProfile />
         </div>
@@ -80,9 +340,69 @@ export default function HomePage() {
             <MapComponentWithNoSSR 
               onMapClick={handleMapClick} 
               events={events} 
-              selectedLocation={selectedLocation}
+              selectedLocation={searchMode === 'point' ? selectedLocation : null}
               radius={radius}
+              onViewportChange={searchMode === 'viewport' ? setViewportBounds : undefined}
+              route={route}
+              clusters={clusters}
+              onZoomChange={setMapZoom}
+              focusLocation={focusLocation}
             />
+
+            {/* Search mode toggle */}
+            <div className="absolute top-3 left-3 z-10 flex bg-white rounded-md shadow text-sm overflow-hidden">
+              <button
+                type="button"
+                onClick={() => changeSearchMode('point')}
+                className={`px-3 py-1.5 ${searchMode === 'point' ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                Clicked point
+              </button>
+              <button
+                type="button"
+                onClick={() => changeSearchMode('viewport')}
+                className={`px-3 py-1.5 ${searchMode === 'viewport' ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                Current view
+              </button>
+              <button
+                type="button"
+                onClick={() => changeSearchMode('route')}
+                className={`px-3 py-1.5 ${searchMode === 'route' ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                Route
+              </button>
+            </div>
+
+            {/* Route controls */}
+            {searchMode === 'route' && (
+              <div className="absolute top-12 left-3 z-10 bg-white rounded-md shadow text-sm px-3 py-2 space-y-2">
+                <p className="text-gray-600">
+                  {routePoints.length < 2 ? 'Click the map to add route points' : `${routePoints.length} route points`}
+                </p>
+                <div className="flex items-center gap-2">
+                  <label htmlFor="route-buffer" className="text-gray-700">Corridor</label>
+                  <select
+                    id="route-buffer"
+                    value={routeBufferKm}
+                    onChange={(e) => setRouteBufferKm(Number(e.target.value))}
+                    className="border border-gray-300 rounded px-2 py-1"
+                  >
+                    {BUFFER_CHOICES.map((km) => (
+                      <option key={km} value={km}>{km} km</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setRoutePoints([])}
+                    disabled={routePoints.length === 0}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    Clear route
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
           
           {/* Events Drawer */}
@@ -92,6 +412,17 @@ export default function HomePage() {
             error={error}
             selectedLocation={selectedLocation}
             radius={radius}
+            searchMode={searchMode}
+            routeBufferKm={routeBufferKm}
+            totalEvents={totalEvents}
+            hasMore={nextCursor !== null}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadMoreEvents}
+            isExporting={isExporting}
+            onExport={exportEvents}
+            calendarPath={calendarPath}
+            listOptions={listOptions}
+            onListOptionsChange={setListOptions}
           />
         </div>
       </div>
@@ -2,7 +2,10 @@
 
 import { useState } from 'react'
 import { EventFeature } from '@/types/events'
-import { getPlaceholderImageUrl } from '@/lib/image-utils'
+import { getPlaceholderImageUrl, getProxiedImageUrl } from '@/lib/image-utils'
+import { getPrimaryCategory } from '@/lib/categories'
+import { formatEventDateRange } from '@/lib/dates'
+import { ImageCredit } from '@/components/ImageCredit'
 
 interface EventCardProps {
   event: EventFeature
@@ -15,55 +18,19 @@ export function EventCard({ event, onClose }: EventCardProps) {
 
   const handleImageLoad = () => {
     setImageLoading(false)
-    setImageError(false)
   }
 
+  // The placeholder stands in for a failed image; if that fails too, stop waiting
   const handleImageError = () => {
+    if (imageError) setImageLoading(false)
     setImageError(true)
-    setImageLoading(false)
-  }
-
-  const formatDate = (dateString: string) => {
-    try {
-      // Handle "Unknown date" case
-      if (dateString === 'Unknown date' || !dateString) {
-        return 'Date unknown'
-      }
-      
-      // If it's already in YYYY-MM-DD format, format it nicely
-      if (dateString.match(/^\d{4}-\d{2}-\d{2}$/)) {
-        const date = new Date(dateString)
-        if (!isNaN(date.getTime())) {
-          return date.toLocaleDateString('en-US', {
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric'
-          })
-        }
-      }
-      
-      // Try parsing as ISO date
-      const date = new Date(dateString)
-      if (!isNaN(date.getTime())) {
-        return date.toLocaleDateString('en-US', {
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric'
-        })
-      }
-      
-      // If all else fails, return the original string
-      return dateString
-    } catch {
-      return dateString || 'Date unknown'
-    }
   }
 
   const getImageUrl = () => {
     if (event.properties.imageUrl && !imageError) {
-      return event.properties.imageUrl
+      return getProxiedImageUrl(event.properties.imageUrl, 640)
     }
-    return getPlaceholderImageUrl(event.properties.label)
+    return getPlaceholderImageUrl(event.properties.label, getPrimaryCategory(event.properties.categories))
   }
 
   return (
@@ -85,17 +52,16 @@ export function EventCard({ event, onClose }: EventCardProps) {
           onLoad={handleImageLoad}
           onError={handleImageError}
         />
-        
-        {imageError && (
-          <div className="absolute inset-0 flex items-center justify-center bg-gray-100">
-            <div className="text-center text-gray-500">
-              <div className="text-4xl mb-2">🏛️</div>
-              <div className="text-sm">No image available</div>
-            </div>
-          </div>
-        )}
+
       </div>
 
+      {/* Image credit, which the image's license requires */}
+      {event.properties.imageAttribution && event.properties.imageUrl && !imageError && (
+        <div className="px-4 pt-2">
+          <ImageCredit attribution={event.properties.imageAttribution} />
+        </div>
+      )}
+
       {/* Content Section */}
       <div className="p-4">
         <div className="flex items-start justify-between mb-2">
@@ -121,7 +87,7 @@ export function EventCard({ event, onClose }: EventCardProps) {
             <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
             </svg>
-            {formatDate(event.properties.date)}
+            {formatEventDateRange(event.properties)}
           </div>
 
           {/* Distance */}
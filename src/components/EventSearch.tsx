@@ -0,0 +1,149 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { EventFeature, EventsResponse } from '@/types/events'
+import { SEARCH_CONFIG } from '@/lib/config'
+import { formatEventDateRange } from '@/lib/dates'
+import { getPreferredLanguages } from '@/lib/languages'
+import { getResponseError } from '@/lib/problem-details'
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300
+
+interface EventSearchProps {
+  onSelect: (event: EventFeature) => void
+}
+
+/**
+ * Search box that finds events by name through /api/search
+ */
+export function EventSearch({ onSelect }: EventSearchProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<EventFeature[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  useEffect(() => {
+    const text = query.trim()
+    if (text.length < SEARCH_CONFIG.MIN_QUERY_LENGTH) {
+      setResults([])
+      setIsSearching(false)
+      setError(null)
+      return
+    }
+
+    let isCurrent = true
+    setIsSearching(true)
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: text, lang: getPreferredLanguages().join(',') })
+        const response = await fetch(`/api/search?${params}`)
+        if (!response.ok) {
+          throw await getResponseError(response)
+        }
+        const data: EventsResponse = await response.json()
+        if (isCurrent) {
+          setError(null)
+          setResults(data.features)
+          setActiveIndex(0)
+        }
+      } catch (err) {
+        console.error('Event search failed:', err)
+        if (isCurrent) {
+          setResults([])
+          setError(err instanceof Error ? err.message : 'Search failed')
+        }
+      } finally {
+        if (isCurrent) setIsSearching(false)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      isCurrent = false
+      clearTimeout(timeout)
+    }
+  }, [query])
+
+  const selectResult = (event: EventFeature) => {
+    onSelect(event)
+    setQuery(event.properties.label)
+    setIsOpen(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((index) => Math.max(index - 1, 0))
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault()
+      selectResult(results[activeIndex])
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  const showResults = isOpen && query.trim().length >= SEARCH_CONFIG.MIN_QUERY_LENGTH
+
+  return (
+    <div className="relative w-80">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setIsOpen(true)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search events, e.g. Battle of Brooklyn"
+        className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Search events by name"
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="event-search-results"
+      />
+
+      {showResults && (
+        <ul
+          id="event-search-results"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-80 overflow-y-auto text-sm"
+        >
+          {isSearching && results.length === 0 && (
+            <li className="px-3 py-2 text-gray-500">Searching...</li>
+          )}
+          {!isSearching && results.length === 0 && error && (
+            <li className="px-3 py-2 text-red-700">{error}</li>
+          )}
+          {!isSearching && results.length === 0 && !error && (
+            <li className="px-3 py-2 text-gray-500">No events found</li>
+          )}
+          {results.map((event, index) => (
+            <li
+              key={event.properties.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the list stays open until the click registers
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectResult(event)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-blue-50' : ''}`}
+            >
+              <div className="font-medium text-gray-900">{event.properties.label}</div>
+              <div className="text-xs text-gray-500 truncate">
+                {formatEventDateRange(event.properties)}
+                {event.properties.description && ` · ${event.properties.description}`}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,21 @@
 'use client'
 
-import { HistoricalEvent } from '@/types/events'
+import { useState } from 'react'
+import { HistoricalEvent, EventListOptions, EventCategoryKey, SearchMode } from '@/types/events'
+import { EVENT_CATEGORIES } from '@/lib/categories'
+import { formatEventDateRange } from '@/lib/dates'
+import { formatImageCredit, getProxiedImageUrl } from '@/lib/image-utils'
+import { EXPORT_FORMATS, EXPORT_FORMAT_LABELS, ExportFormat } from '@/lib/event-export'
+import { RelatedEvents } from '@/components/RelatedEvents'
+
+// Sort choices offered in the drawer, as sort:order pairs understood by /api/events
+const SORT_CHOICES: { value: string; label: string }[] = [
+  { value: 'route:asc', label: 'Along the route' },
+  { value: 'distance:asc', label: 'Nearest first' },
+  { value: 'date:asc', label: 'Oldest first' },
+  { value: 'date:desc', label: 'Newest first' },
+  { value: 'relevance:desc', label: 'Most relevant' }
+]
 
 interface EventsDrawerProps {
   events: HistoricalEvent[]
@@ -8,43 +23,59 @@ interface EventsDrawerProps {
   error: string | null
   selectedLocation: { lat: number; lng: number } | null
   radius: number
+  searchMode: SearchMode
+  // Corridor width on each side of the route, for route searches
+  routeBufferKm: number
+  totalEvents: number
+  hasMore: boolean
+  isLoadingMore: boolean
+  onLoadMore: () => void
+  isExporting: boolean
+  onExport: (format: ExportFormat) => void
+  // Path of the area's anniversary calendar feed, if the search area has one
+  calendarPath: string | null
+  listOptions: EventListOptions
+  onListOptionsChange: (options: EventListOptions) => void
 }
 
-export function EventsDrawer({ events, isLoading, error, selectedLocation, radius }: EventsDrawerProps) {
-  const formatDate = (dateString: string): string => {
-    try {
-      // Handle "Unknown date" case
-      if (dateString === 'Unknown date' || !dateString) {
-        return 'Date unknown'
-      }
-      
-      // If it's already in YYYY-MM-DD format, format it nicely
-      if (dateString.match(/^\d{4}-\d{2}-\d{2}$/)) {
-        const date = new Date(dateString)
-        if (!isNaN(date.getTime())) {
-          return date.toLocaleDateString('en-US', {
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric'
-          })
-        }
-      }
-      
-      // Try parsing as ISO date
-      const date = new Date(dateString)
-      if (!isNaN(date.getTime())) {
-        return date.toLocaleDateString('en-US', {
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric'
-        })
-      }
-      
-      // If all else fails, return the original string
-      return dateString
-    } catch {
-      return dateString || 'Date unknown'
-    }
+export function EventsDrawer({
+  events,
+  isLoading,
+  error,
+  selectedLocation,
+  radius,
+  searchMode,
+  routeBufferKm,
+  totalEvents,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  isExporting,
+  onExport,
+  calendarPath,
+  listOptions,
+  onListOptionsChange
+}: EventsDrawerProps) {
+  // Event whose related events are shown; one at a time keeps the list compact
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null)
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false)
+
+  // Today's date without a year, e.g. "October 19", for the "On this day" tab
+  const todayLabel = new Date().toLocaleDateString(undefined, { month: 'long', day: 'numeric' })
+
+  const areaDescription = {
+    point: `within ${radius}km radius`,
+    viewport: 'in the current view',
+    route: `within ${routeBufferKm}km of the route`
+  }[searchMode] + (listOptions.onThisDay ? ` on ${todayLabel}` : '')
+
+  // Ordering along the route only makes sense for route searches
+  const sortChoices = SORT_CHOICES.filter((choice) => searchMode === 'route' || !choice.value.startsWith('route:'))
+
+  // Unique taxonomy categories of an event, leaving out the catch-all "other"
+  const getCategoryKeys = (event: HistoricalEvent): EventCategoryKey[] => {
+    const keys = (event.properties.categories || []).map(({ category }) => category)
+    return Array.from(new Set(keys)).filter((key) => key !== 'other')
   }
 
   const formatDistance = (distance?: number): string => {
@@ -54,6 +85,62 @@ export function EventsDrawer({ events, isLoading, error, selectedLocation, radiu
 
   return (
     <div className="w-96 bg-white border-l border-gray-200 flex flex-col">
+      {/* Tabs: every event in the area, or only those that happened on today's date */}
+      <div className="flex border-b border-gray-200 text-sm" role="tablist" aria-label="Events to list">
+        {[
+          { onThisDay: false, label: 'All events' },
+          { onThisDay: true, label: `On this day · ${todayLabel}` }
+        ].map((tab) => (
+          <button
+            key={tab.label}
+            type="button"
+            role="tab"
+            aria-selected={listOptions.onThisDay === tab.onThisDay}
+            onClick={() => onListOptionsChange({ ...listOptions, onThisDay: tab.onThisDay })}
+            className={`flex-1 px-4 py-2 font-medium border-b-2 ${
+              listOptions.onThisDay === tab.onThisDay
+                ? 'border-blue-600 text-blue-700'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Sort and filter controls */}
+      <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center gap-3 text-xs text-gray-700">
+        <select
+          value={`${listOptions.sort}:${listOptions.order}`}
+          onChange={(e) => {
+            const [sort, order] = e.target.value.split(':') as [EventListOptions['sort'], EventListOptions['order']]
+            onListOptionsChange({ ...listOptions, sort, order })
+          }}
+          className="border border-gray-300 rounded-md px-2 py-1 bg-white"
+          aria-label="Sort events"
+        >
+          {sortChoices.map((choice) => (
+            <option key={choice.value} value={choice.value}>{choice.label}</option>
+          ))}
+        </select>
+        <label className="inline-flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={listOptions.hasImage}
+            onChange={(e) => onListOptionsChange({ ...listOptions, hasImage: e.target.checked })}
+          />
+          With photos
+        </label>
+        <label className="inline-flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={listOptions.hasWikipedia}
+            onChange={(e) => onListOptionsChange({ ...listOptions, hasWikipedia: e.target.checked })}
+          />
+          On Wikipedia
+        </label>
+      </div>
+
       {/* Content */}
       <div className="flex-1 overflow-y-auto">
         {isLoading && (
@@ -76,7 +163,11 @@ export function EventsDrawer({ events, isLoading, error, selectedLocation, radiu
 
         {!isLoading && !error && events.length === 0 && selectedLocation && (
           <div className="p-4">
-            <p className="text-gray-500 text-center">No historical events found in this area.</p>
+            <p className="text-gray-500 text-center">
+              {listOptions.onThisDay
+                ? `Nothing in this area is known to have happened on ${todayLabel}.`
+                : 'No historical events found in this area.'}
+            </p>
           </div>
         )}
 
@@ -85,13 +176,32 @@ export function EventsDrawer({ events, isLoading, error, selectedLocation, radiu
             {events.map((event) => (
               <div key={event.properties.id} className="p-4 hover:bg-gray-50">
                 <div className="flex justify-between items-start">
+                  {event.properties.imageUrl && (
+                    <img
+                      src={getProxiedImageUrl(event.properties.imageUrl, 160)}
+                      alt=""
+                      title={event.properties.imageAttribution && `Image: ${formatImageCredit(event.properties.imageAttribution)}`}
+                      loading="lazy"
+                      className="w-16 h-16 object-cover rounded mr-3 flex-shrink-0 bg-gray-100"
+                      onError={(e) => { e.currentTarget.style.display = 'none' }}
+                    />
+                  )}
                   <div className="flex-1">
                     <h3 className="font-medium text-gray-900 text-sm leading-tight">
                       {event.properties.label}
                     </h3>
                     <p className="text-xs text-gray-500 mt-1">
-                      {formatDate(event.properties.date)}
+                      {formatEventDateRange(event.properties)}
                     </p>
+                    {getCategoryKeys(event).length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {getCategoryKeys(event).map((key) => (
+                          <span key={key} className="text-[10px] uppercase tracking-wide bg-gray-100 text-gray-600 rounded px-1.5 py-0.5">
+                            {EVENT_CATEGORIES[key].label}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                     {event.properties.description && (
                       <p className="text-xs text-gray-600 mt-2 line-clamp-2">
                         {event.properties.description}
@@ -124,6 +234,19 @@ export function EventsDrawer({ events, isLoading, error, selectedLocation, radiu
                         Read on Wikipedia
                       </a>
                     )}
+                    <button
+                      type="button"
+                      onClick={() => setExpandedEventId(expandedEventId === event.properties.id ? null : event.properties.id)}
+                      className="block text-xs text-gray-500 hover:text-gray-700 mt-2"
+                      aria-expanded={expandedEventId === event.properties.id}
+                    >
+                      {expandedEventId === event.properties.id ? 'Hide related events' : 'Related events'}
+                    </button>
+                    {expandedEventId === event.properties.id && (
+                      <div className="mt-2 pl-2 border-l-2 border-blue-100">
+                        <RelatedEvents eventId={event.properties.id} />
+                      </div>
+                    )}
                   </div>
                   {event.properties.distance && (
                     <span className="text-xs text-blue-600 font-medium ml-2">
@@ -133,6 +256,17 @@ export function EventsDrawer({ events, isLoading, error, selectedLocation, radiu
                 </div>
               </div>
             ))}
+            {hasMore && (
+              <div className="p-4">
+                <button
+                  onClick={onLoadMore}
+                  disabled={isLoadingMore}
+                  className="w-full text-sm text-blue-600 hover:text-blue-800 font-medium py-2 rounded-md border border-blue-200 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isLoadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -147,10 +281,57 @@ export function EventsDrawer({ events, isLoading, error, selectedLocation, radiu
 
       {/* Footer */}
       {events.length > 0 && (
-        <div className="p-4 border-t border-gray-200 bg-gray-50">
-          <p className="text-xs text-gray-500 text-center">
-            Found {events.length} historical event{events.length !== 1 ? 's' : ''} within {radius}km radius
+        <div className="p-4 border-t border-gray-200 bg-gray-50 flex items-center justify-between gap-3">
+          <p className="text-xs text-gray-500">
+            {events.length < totalEvents
+              ? `Showing ${events.length} of ${totalEvents} historical events ${areaDescription}`
+              : `Found ${events.length} historical event${events.length !== 1 ? 's' : ''} ${areaDescription}`}
           </p>
+          {/* Exports contain every matching event, not only the loaded pages */}
+          <div className="relative flex-shrink-0">
+            <button
+              type="button"
+              onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+              disabled={isExporting}
+              className="text-xs text-blue-600 hover:text-blue-800 font-medium px-2 py-1 rounded-md border border-blue-200 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-haspopup="menu"
+              aria-expanded={isExportMenuOpen}
+            >
+              {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+            {isExportMenuOpen && (
+              <div role="menu" className="absolute right-0 bottom-full mb-1 w-44 bg-white border border-gray-200 rounded-md shadow-lg py-1 z-10">
+                {EXPORT_FORMATS.map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    role="menuitem"
+                    onClick={() => {
+                      setIsExportMenuOpen(false)
+                      onExport(format)
+                    }}
+                    className="block w-full text-left text-xs text-gray-700 px-3 py-1.5 hover:bg-gray-100"
+                  >
+                    {EXPORT_FORMAT_LABELS[format]}
+                  </button>
+                ))}
+                {calendarPath && (
+                  <button
+                    type="button"
+                    role="menuitem"
+                    onClick={() => {
+                      setIsExportMenuOpen(false)
+                      // webcal:// hands the feed to the calendar app as a subscription rather than a download
+                      window.location.href = `webcal://${window.location.host}${calendarPath}`
+                    }}
+                    className="block w-full text-left text-xs text-gray-700 px-3 py-1.5 hover:bg-gray-100 border-t border-gray-100"
+                  >
+                    Subscribe to anniversaries
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
         </div>
       )}
     </div>
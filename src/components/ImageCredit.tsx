@@ -0,0 +1,37 @@
+'use client'
+
+import { ImageAttribution } from '@/types/events'
+
+interface ImageCreditProps {
+  attribution: ImageAttribution
+}
+
+/**
+ * Author, license and source of an event image, as its license requires
+ */
+export function ImageCredit({ attribution }: ImageCreditProps) {
+  const { author, license, licenseUrl, filePageUrl, freeLicense } = attribution
+
+  return (
+    <p className="text-[11px] text-gray-500 leading-snug">
+      Image: {author ?? 'Unknown author'}
+      {' · '}
+      {license && licenseUrl ? (
+        <a href={licenseUrl} target="_blank" rel="noopener noreferrer license" className="hover:underline">
+          {license}
+        </a>
+      ) : (
+        license ?? 'License unknown'
+      )}
+      {' · '}
+      <a href={filePageUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+        Source
+      </a>
+      {!freeLicense && (
+        <span className="block text-amber-700">
+          No known free license. Check the source before reusing this image.
+        </span>
+      )}
+    </p>
+  )
+}
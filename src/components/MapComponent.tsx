@@ -2,7 +2,14 @@
 
 import { useEffect, useRef, useState } from 'react'
 import mapboxgl from 'mapbox-gl'
-import { HistoricalEvent } from '@/types/events'
+import { createRoot, Root } from 'react-dom/client'
+import { HistoricalEvent, ClustersResponse, ImageAttribution } from '@/types/events'
+import { BoundingBox } from '@/lib/geo'
+import { formatEventDateRange } from '@/lib/dates'
+import { isClusterFeature } from '@/lib/clustering'
+import { getPrimaryCategory } from '@/lib/categories'
+import { formatImageCredit, getPlaceholderImageUrl, getProxiedImageUrl } from '@/lib/image-utils'
+import { RelatedEvents } from '@/components/RelatedEvents'
 
 // Import Mapbox CSS directly
 import 'mapbox-gl/dist/mapbox-gl.css'
@@ -30,14 +37,43 @@ if (mapboxToken) {
     })
 }
 
+// Event labels and descriptions from Wikidata, and image credits from Wikimedia file descriptions, are inserted into popup HTML
+function escapeHtml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+/**
+ * Credit line under a popup image, as the image's license requires: the credit
+ * shared with the event list, followed by links to the license and the file page
+ */
+function getImageCreditHtml(attribution: ImageAttribution): string {
+  const links = [
+    attribution.license && attribution.licenseUrl
+      ? `<a href="${escapeHtml(attribution.licenseUrl)}" target="_blank" rel="noopener noreferrer license" class="hover:underline">License</a>`
+      : null,
+    `<a href="${escapeHtml(attribution.filePageUrl)}" target="_blank" rel="noopener noreferrer" class="hover:underline">Source</a>`
+  ].filter(Boolean).join(' · ')
+  return `<p class="text-[11px] text-gray-500 leading-snug mt-1">Image: ${escapeHtml(formatImageCredit(attribution))} · ${links}</p>`
+}
+
 interface MapComponentProps {
   onMapClick: (lat: number, lng: number) => void
   events: HistoricalEvent[]
   selectedLocation: { lat: number; lng: number } | null
   radius: number
+  // Called with the visible area after every pan or zoom, for viewport searches
+  onViewportChange?: (bbox: BoundingBox) => void
+  // Route drawn for corridor searches, shown as a path as wide as the corridor
+  route?: { coordinates: [number, number][]; bufferKm: number } | null
+  // Clustered markers from /api/events/clusters; when null the events themselves are shown
+  clusters?: ClustersResponse['features'] | null
+  // Called with the whole-number zoom level after every zoom, for fetching clusters
+  onZoomChange?: (zoom: number) => void
+  // The map flies here whenever a new location object is passed
+  focusLocation?: { lat: number; lng: number } | null
 }
 
-export function MapComponent({ onMapClick, events, selectedLocation, radius }: MapComponentProps) {
+export function MapComponent({ onMapClick, events, selectedLocation, radius, onViewportChange, route, clusters, onZoomChange, focusLocation }: MapComponentProps) {
   const mapContainer = useRef<HTMLDivElement>(null)
   const map = useRef<mapboxgl.Map | null>(null)
   const radiusSource = useRef<string | null>(null)
@@ -94,13 +130,11 @@ export function MapComponent({ onMapClick, events, selectedLocation, radius }: M
       .addTo(map.current!)
   }
 
-  // Function to update radius circle
-  const updateRadiusCircle = (lat: number, lng: number) => {
-    if (!map.current || !isMapReady) return
+  // Function to remove the radius circle source and layers
+  const removeRadiusCircle = () => {
+    if (!map.current) return
 
     const sourceId = 'radius-circle'
-    
-    // Remove existing radius source and layer
     if (map.current.getSource(sourceId)) {
       if (map.current.getLayer('radius-circle-layer')) {
         map.current.removeLayer('radius-circle-layer')
@@ -110,6 +144,16 @@ export function MapComponent({ onMapClick, events, selectedLocation, radius }: M
       }
       map.current.removeSource(sourceId)
     }
+  }
+
+  // Function to update radius circle
+  const updateRadiusCircle = (lat: number, lng: number) => {
+    if (!map.current || !isMapReady) return
+
+    const sourceId = 'radius-circle'
+    
+    // Remove existing radius source and layer
+    removeRadiusCircle()
 
     // Create new radius circle
     const circleGeometry = createCircleGeometry([lng, lat], radius)
@@ -272,6 +316,12 @@ export function MapComponent({ onMapClick, events, selectedLocation, radius }: M
 
         // Handle map clicks
         map.current.on('click', (e) => {
+          // Clicks on a cluster zoom into it instead of starting a new search
+          if (map.current?.getLayer('event-clusters-layer') &&
+              map.current.queryRenderedFeatures(e.point, { layers: ['event-clusters-layer'] }).length > 0) {
+            return
+          }
+
           const { lng, lat } = e.lngLat
           
           // Update selected location marker
@@ -308,82 +358,308 @@ export function MapComponent({ onMapClick, events, selectedLocation, radius }: M
     if (selectedLocation && map.current && isMapReady) {
       updateSelectedLocationMarker(selectedLocation.lat, selectedLocation.lng)
       updateRadiusCircle(selectedLocation.lat, selectedLocation.lng)
-    } else if (!selectedLocation && selectedLocationMarker.current) {
-      // Remove marker when no location is selected
-      selectedLocationMarker.current.remove()
+    } else if (!selectedLocation) {
+      // Remove marker and radius circle when no location is selected
+      selectedLocationMarker.current?.remove()
       selectedLocationMarker.current = null
+      if (isMapReady) {
+        removeRadiusCircle()
+      }
     }
   }, [selectedLocation, isMapReady, radius])
 
+  // Draw the route corridor: a line whose width matches the buffer on both sides at every zoom level
+  useEffect(() => {
+    const currentMap = map.current
+    if (!currentMap || !isMapReady) return
+
+    const sourceId = 'route-corridor'
+    const layerIds = ['route-corridor-layer', 'route-line-layer', 'route-vertices-layer']
+    const removeRoute = () => {
+      layerIds.forEach((layerId) => {
+        if (currentMap.getLayer(layerId)) {
+          currentMap.removeLayer(layerId)
+        }
+      })
+      if (currentMap.getSource(sourceId)) {
+        currentMap.removeSource(sourceId)
+      }
+    }
+
+    removeRoute()
+    if (!route || route.coordinates.length === 0) return
+
+    const features: GeoJSON.Feature[] = route.coordinates.map((coordinates) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates },
+      properties: {}
+    }))
+    if (route.coordinates.length > 1) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: route.coordinates },
+        properties: {}
+      })
+    }
+    currentMap.addSource(sourceId, { type: 'geojson', data: { type: 'FeatureCollection', features } })
+
+    // Meters per pixel at zoom 0 for 512px tiles is 78271.517 * cos(latitude) and halves with every zoom level
+    const latitude = route.coordinates[0][1]
+    const widthAtZoom0 = (2 * route.bufferKm * 1000) / (78271.517 * Math.cos(latitude * Math.PI / 180))
+
+    currentMap.addLayer({
+      id: 'route-corridor-layer',
+      type: 'line',
+      source: sourceId,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      layout: { 'line-cap': 'round', 'line-join': 'round' },
+      paint: {
+        'line-color': '#3B82F6',
+        'line-opacity': 0.15,
+        'line-width': ['interpolate', ['exponential', 2], ['zoom'], 0, widthAtZoom0, 22, widthAtZoom0 * 2 ** 22]
+      }
+    })
+    currentMap.addLayer({
+      id: 'route-line-layer',
+      type: 'line',
+      source: sourceId,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      paint: {
+        'line-color': '#3B82F6',
+        'line-width': 2
+      }
+    })
+    currentMap.addLayer({
+      id: 'route-vertices-layer',
+      type: 'circle',
+      source: sourceId,
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-radius': 4,
+        'circle-color': '#ffffff',
+        'circle-stroke-color': '#3B82F6',
+        'circle-stroke-width': 2
+      }
+    })
+
+    return removeRoute
+  }, [route, isMapReady])
+
+  // Report the visible area now and after every pan or zoom
+  useEffect(() => {
+    const currentMap = map.current
+    if (!currentMap || !isMapReady || !onViewportChange) return
+
+    const reportViewport = () => {
+      const bounds = currentMap.getBounds()
+      if (!bounds) return
+
+      // Zoomed-out views can extend past the antimeridian; clamp to valid coordinates
+      onViewportChange({
+        minLng: Math.max(-180, bounds.getWest()),
+        minLat: Math.max(-90, bounds.getSouth()),
+        maxLng: Math.min(180, bounds.getEast()),
+        maxLat: Math.min(90, bounds.getNorth())
+      })
+    }
+
+    reportViewport()
+    currentMap.on('moveend', reportViewport)
+    return () => {
+      currentMap.off('moveend', reportViewport)
+    }
+  }, [isMapReady, onViewportChange])
+
+  // Fly to the focus location, zooming in to street level unless already closer
+  useEffect(() => {
+    if (!map.current || !isMapReady || !focusLocation) return
+    map.current.flyTo({
+      center: [focusLocation.lng, focusLocation.lat],
+      zoom: Math.max(map.current.getZoom(), 13)
+    })
+  }, [focusLocation, isMapReady])
+
+  // Report the zoom level now and after every zoom
+  useEffect(() => {
+    const currentMap = map.current
+    if (!currentMap || !isMapReady || !onZoomChange) return
+
+    const reportZoom = () => onZoomChange(Math.floor(currentMap.getZoom()))
+
+    reportZoom()
+    currentMap.on('zoomend', reportZoom)
+    return () => {
+      currentMap.off('zoomend', reportZoom)
+    }
+  }, [isMapReady, onZoomChange])
+
+  // Draw clusters as a circle layer with their event count; clicking one zooms in until it splits up
+  useEffect(() => {
+    const currentMap = map.current
+    if (!currentMap || !isMapReady) return
+
+    const sourceId = 'event-clusters'
+    const removeClusters = () => {
+      ['event-clusters-count', 'event-clusters-layer'].forEach((layerId) => {
+        if (currentMap.getLayer(layerId)) {
+          currentMap.removeLayer(layerId)
+        }
+      })
+      if (currentMap.getSource(sourceId)) {
+        currentMap.removeSource(sourceId)
+      }
+    }
+
+    removeClusters()
+    const clusterFeatures = clusters?.filter(isClusterFeature) ?? []
+    if (clusterFeatures.length === 0) return
+
+    currentMap.addSource(sourceId, {
+      type: 'geojson',
+      data: { type: 'FeatureCollection', features: clusterFeatures }
+    })
+
+    currentMap.addLayer({
+      id: 'event-clusters-layer',
+      type: 'circle',
+      source: sourceId,
+      paint: {
+        'circle-color': '#EF4444',
+        'circle-opacity': 0.85,
+        'circle-radius': ['step', ['get', 'count'], 14, 10, 18, 100, 24, 1000, 30],
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 2
+      }
+    })
+    currentMap.addLayer({
+      id: 'event-clusters-count',
+      type: 'symbol',
+      source: sourceId,
+      layout: {
+        'text-field': ['to-string', ['get', 'count']],
+        'text-size': 12,
+        'text-allow-overlap': true
+      },
+      paint: {
+        'text-color': '#ffffff'
+      }
+    })
+
+    const zoomIntoCluster = (e: mapboxgl.MapMouseEvent & { features?: mapboxgl.GeoJSONFeature[] }) => {
+      const feature = e.features?.[0]
+      if (!feature || feature.geometry.type !== 'Point') return
+      currentMap.easeTo({
+        center: feature.geometry.coordinates as [number, number],
+        zoom: feature.properties?.expansionZoom
+      })
+    }
+    const showPointer = () => {
+      currentMap.getCanvas().style.cursor = 'pointer'
+    }
+    const hidePointer = () => {
+      currentMap.getCanvas().style.cursor = ''
+    }
+
+    currentMap.on('click', 'event-clusters-layer', zoomIntoCluster)
+    currentMap.on('mouseenter', 'event-clusters-layer', showPointer)
+    currentMap.on('mouseleave', 'event-clusters-layer', hidePointer)
+    return () => {
+      currentMap.off('click', 'event-clusters-layer', zoomIntoCluster)
+      currentMap.off('mouseenter', 'event-clusters-layer', showPointer)
+      currentMap.off('mouseleave', 'event-clusters-layer', hidePointer)
+      removeClusters()
+    }
+  }, [clusters, isMapReady])
+
   // Update event markers when events change
   useEffect(() => {
-    console.log('MapComponent: Events changed, events.length =', events.length)
+    // With clusters, only the events that are not part of a cluster get their own marker
+    const markerEvents: HistoricalEvent[] = clusters
+      ? clusters.filter((feature): feature is HistoricalEvent => !isClusterFeature(feature))
+      : events
+    console.log('MapComponent: Events changed, events.length =', markerEvents.length)
     console.log('MapComponent: map.current =', !!map.current)
     console.log('MapComponent: isMapReady =', isMapReady)
-    console.log('MapComponent: Sample event =', events[0])
+    console.log('MapComponent: Sample event =', markerEvents[0])
     
     // Remove existing event markers
     eventMarkers.current.forEach(marker => marker.remove())
     eventMarkers.current = []
 
-    if (!map.current || !isMapReady || events.length === 0) {
+    if (!map.current || !isMapReady || markerEvents.length === 0) {
       console.log('MapComponent: Early return - no map, not ready, or no events')
       return
     }
 
     // Add new event markers
-    events.forEach((event) => {
+    markerEvents.forEach((event) => {
       const el = document.createElement('div')
+      const displayDate = formatEventDateRange(event.properties)
       
       // Different marker styles based on whether the event has an image
       if (event.properties.imageUrl) {
         el.className = 'w-5 h-5 bg-blue-600 rounded-full border-2 border-white shadow-lg cursor-pointer'
         el.style.boxShadow = '0 2px 8px rgba(59, 130, 246, 0.4)'
-        el.title = `${event.properties.label} (${event.properties.date}) - Has image`
+        el.title = `${event.properties.label} (${displayDate}) - Has image`
       } else {
         el.className = 'w-4 h-4 bg-red-500 rounded-full border-2 border-white shadow-lg cursor-pointer'
-        el.title = `${event.properties.label} (${event.properties.date})`
+        el.title = `${event.properties.label} (${displayDate})`
       }
 
       const eventMarker = new mapboxgl.Marker(el)
         .setLngLat([event.geometry.coordinates[0], event.geometry.coordinates[1]])
         .addTo(map.current!)
 
-      // Add popup on click
-      const popup = new mapboxgl.Popup({ offset: 25 })
-        .setHTML(`
+      // Add popup on click; events without a usable image get a placeholder in their category color
+      const placeholderUrl = getPlaceholderImageUrl(event.properties.label, getPrimaryCategory(event.properties.categories))
+      const popupContent = document.createElement('div')
+      popupContent.innerHTML = `
           <div class="p-3 max-w-xs">
-            ${event.properties.imageUrl ? `
-              <div class="mb-3">
-                <img 
-                  src="${event.properties.imageUrl}" 
-                  alt="${event.properties.label}"
-                  class="w-full h-32 object-cover rounded-lg shadow-sm"
-                  onerror="this.style.display='none'"
-                />
-              </div>
-            ` : `
-              <div class="mb-3 bg-gray-100 rounded-lg h-32 flex items-center justify-center">
-                <div class="text-center text-gray-500">
-                  <div class="text-4xl mb-2">🏛️</div>
-                  <div class="text-xs">No image available</div>
-                </div>
-              </div>
-            `}
-            <h3 class="font-semibold text-sm mb-2">${event.properties.label}</h3>
-            <p class="text-xs text-gray-600 mb-2">${event.properties.date}</p>
-            ${event.properties.description ? `<p class="text-xs text-gray-700 mb-2 leading-relaxed">${event.properties.description}</p>` : ''}
+            <div class="mb-3">
+              <img 
+                src="${escapeHtml(event.properties.imageUrl ? getProxiedImageUrl(event.properties.imageUrl) : placeholderUrl)}" 
+                alt="${escapeHtml(event.properties.label)}"
+                class="w-full h-32 object-cover rounded-lg shadow-sm bg-gray-100"
+                onerror="this.onerror=null; this.src='${placeholderUrl}'; this.nextElementSibling?.remove()"
+              />
+              ${event.properties.imageUrl && event.properties.imageAttribution ? getImageCreditHtml(event.properties.imageAttribution) : ''}
+            </div>
+            <h3 class="font-semibold text-sm mb-2">${escapeHtml(event.properties.label)}</h3>
+            <p class="text-xs text-gray-600 mb-2">${displayDate}</p>
+            ${event.properties.description ? `<p class="text-xs text-gray-700 mb-2 leading-relaxed">${escapeHtml(event.properties.description)}</p>` : ''}
             ${event.properties.distance ? `<p class="text-xs text-blue-600 mb-2">📍 ${event.properties.distance.toFixed(1)} km away</p>` : ''}
-            ${event.properties.wikipediaUrl ? `<a href="${event.properties.wikipediaUrl}" target="_blank" rel="noopener noreferrer" class="text-xs text-blue-600 hover:underline block">📚 Read on Wikipedia</a>` : ''}
+            ${event.properties.wikipediaUrl ? `<a href="${escapeHtml(event.properties.wikipediaUrl)}" target="_blank" rel="noopener noreferrer" class="text-xs text-blue-600 hover:underline block">📚 Read on Wikipedia</a>` : ''}
           </div>
-        `)
+        `
+
+      // Related events are rendered with React while the popup is open
+      const relatedSection = document.createElement('div')
+      relatedSection.className = 'px-3 pb-3 max-w-xs'
+      relatedSection.innerHTML = '<h4 class="text-xs font-semibold text-gray-700 mb-1">Related events</h4>'
+      const relatedContainer = document.createElement('div')
+      relatedContainer.className = 'max-h-40 overflow-y-auto'
+      relatedSection.appendChild(relatedContainer)
+      popupContent.appendChild(relatedSection)
+      let relatedRoot: Root | null = null
+
+      const popup = new mapboxgl.Popup({ offset: 25 }).setDOMContent(popupContent)
+      popup.on('open', () => {
+        relatedRoot = createRoot(relatedContainer)
+        relatedRoot.render(<RelatedEvents eventId={event.properties.id} />)
+      })
+      popup.on('close', () => {
+        // Unmount after the current render, which may be the one that closed the popup
+        const root = relatedRoot
+        relatedRoot = null
+        setTimeout(() => root?.unmount())
+      })
 
       eventMarker.setPopup(popup)
       eventMarkers.current.push(eventMarker)
     })
     
     console.log('MapComponent: Added', eventMarkers.current.length, 'event markers')
-  }, [events, isMapReady])
+  }, [events, clusters, isMapReady])
 
   console.log('MapComponent rendering, mapContainer ref:', !!mapContainer.current)
   console.log('Container dimensions:', mapContainer.current?.offsetWidth, 'x', mapContainer.current?.offsetHeight)
@@ -0,0 +1,152 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { GeocodeResponse, GeocodeResult } from '@/types/geocoding'
+import { GEOCODING_CONFIG } from '@/lib/config'
+import { getPreferredLanguages } from '@/lib/languages'
+import { getResponseError } from '@/lib/problem-details'
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300
+
+interface PlaceSearchProps {
+  onSelect: (place: GeocodeResult) => void
+}
+
+/**
+ * Search box that finds places by name through /api/geocode
+ */
+export function PlaceSearch({ onSelect }: PlaceSearchProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<GeocodeResult[]>([])
+  const [attribution, setAttribution] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  useEffect(() => {
+    const text = query.trim()
+    if (text.length < GEOCODING_CONFIG.MIN_QUERY_LENGTH) {
+      setResults([])
+      setIsSearching(false)
+      setError(null)
+      return
+    }
+
+    let isCurrent = true
+    setIsSearching(true)
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: text, lang: getPreferredLanguages().join(',') })
+        const response = await fetch(`/api/geocode?${params}`)
+        if (!response.ok) {
+          throw await getResponseError(response)
+        }
+        const data: GeocodeResponse = await response.json()
+        if (isCurrent) {
+          setError(null)
+          setResults(data.results)
+          setAttribution(data.attribution)
+          setActiveIndex(0)
+        }
+      } catch (err) {
+        console.error('Place search failed:', err)
+        if (isCurrent) {
+          setResults([])
+          setError(err instanceof Error ? err.message : 'Search failed')
+        }
+      } finally {
+        if (isCurrent) setIsSearching(false)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      isCurrent = false
+      clearTimeout(timeout)
+    }
+  }, [query])
+
+  const selectResult = (place: GeocodeResult) => {
+    onSelect(place)
+    setQuery(place.label)
+    setIsOpen(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((index) => Math.max(index - 1, 0))
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault()
+      selectResult(results[activeIndex])
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  const showResults = isOpen && query.trim().length >= GEOCODING_CONFIG.MIN_QUERY_LENGTH
+
+  return (
+    <div className="relative w-64">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setIsOpen(true)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Go to a place, e.g. Boston"
+        className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Search places by name"
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="place-search-results"
+      />
+
+      {showResults && (
+        <ul
+          id="place-search-results"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-80 overflow-y-auto text-sm"
+        >
+          {isSearching && results.length === 0 && (
+            <li className="px-3 py-2 text-gray-500">Searching...</li>
+          )}
+          {!isSearching && results.length === 0 && error && (
+            <li className="px-3 py-2 text-red-700">{error}</li>
+          )}
+          {!isSearching && results.length === 0 && !error && (
+            <li className="px-3 py-2 text-gray-500">No places found</li>
+          )}
+          {results.map((place, index) => (
+            <li
+              key={place.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the list stays open until the click registers
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectResult(place)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-blue-50' : ''}`}
+            >
+              <div className="font-medium text-gray-900">{place.name}</div>
+              <div className="text-xs text-gray-500 truncate">{place.label}</div>
+            </li>
+          ))}
+          {results.length > 0 && attribution && (
+            <li role="presentation" className="px-3 py-1.5 text-[10px] text-gray-400 border-t border-gray-100">
+              {attribution}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
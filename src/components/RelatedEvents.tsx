@@ -0,0 +1,98 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { EventFeature, EventRelation, EventsResponse } from '@/types/events'
+import { formatEventDateRange } from '@/lib/dates'
+import { getPreferredLanguages } from '@/lib/languages'
+import { getResponseError } from '@/lib/problem-details'
+
+// How each related event is connected, as shown next to it
+const RELATION_LABELS: Record<EventRelation, string> = {
+  'part-of': 'Part of',
+  'has-part': 'Includes',
+  'sibling': 'Same larger event',
+  'same-conflict': 'Same conflict',
+  'same-participant': 'Shared participant',
+  'previous': 'Previous',
+  'next': 'Next',
+  'nearby': 'Nearby',
+}
+
+interface RelatedEventsProps {
+  // Entity URI of the selected event, as in event features
+  eventId: string
+}
+
+/**
+ * List of events related to an event, loaded from /api/events/[qid]/related
+ */
+export function RelatedEvents({ eventId }: RelatedEventsProps) {
+  const [related, setRelated] = useState<EventFeature[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const qid = eventId.split('/').pop()
+    const params = new URLSearchParams({ lang: getPreferredLanguages().join(',') })
+    let isCurrent = true
+
+    setRelated(null)
+    setError(null)
+    fetch(`/api/events/${qid}/related?${params}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw await getResponseError(response)
+        }
+        return response.json()
+      })
+      .then((data: EventsResponse) => {
+        if (isCurrent) setRelated(data.features)
+      })
+      .catch((err) => {
+        if (isCurrent) setError(err instanceof Error ? err.message : 'Failed to load related events')
+      })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [eventId])
+
+  if (error) {
+    return <p className="text-xs text-red-700">Could not load related events: {error}</p>
+  }
+
+  if (!related) {
+    return <p className="text-xs text-gray-500">Loading related events...</p>
+  }
+
+  if (related.length === 0) {
+    return <p className="text-xs text-gray-500">No related events found.</p>
+  }
+
+  return (
+    <ul className="space-y-1.5">
+      {related.map((event) => (
+        <li key={event.properties.id} className="text-xs">
+          <span className="text-[10px] uppercase tracking-wide bg-blue-50 text-blue-700 rounded px-1.5 py-0.5 mr-1">
+            {RELATION_LABELS[event.properties.relation ?? 'nearby']}
+          </span>
+          {event.properties.wikipediaUrl ? (
+            <a
+              href={event.properties.wikipediaUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-gray-900 hover:text-blue-700 hover:underline"
+            >
+              {event.properties.label}
+            </a>
+          ) : (
+            <span className="text-gray-900">{event.properties.label}</span>
+          )}
+          <span className="text-gray-500">
+            {' · '}{formatEventDateRange(event.properties)}
+            {event.properties.distance !== undefined && ` · ${event.properties.distance.toFixed(1)} km`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,29 @@
+/**
+ * Bearer token check for the cache administration routes under /api/cache
+ */
+
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { ForbiddenError, UnauthorizedError, problemResponse } from '@/lib/errors'
+
+/**
+ * Check the `Authorization: Bearer` header against CACHE_ADMIN_TOKEN.
+ * Returns the error response to send, or null if the request may proceed.
+ */
+export function checkAdminToken(request: NextRequest): NextResponse | null {
+  const adminToken = process.env.CACHE_ADMIN_TOKEN
+  if (!adminToken) {
+    return problemResponse(new ForbiddenError('Cache administration is disabled. Set CACHE_ADMIN_TOKEN to enable it.'))
+  }
+
+  const header = request.headers.get('authorization') ?? ''
+  const token = Buffer.from(header.replace(/^Bearer\s+/i, ''))
+  const expected = Buffer.from(adminToken)
+  if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+    const response = problemResponse(new UnauthorizedError('Missing or invalid admin token.'))
+    response.headers.set('WWW-Authenticate', 'Bearer')
+    return response
+  }
+
+  return null
+}
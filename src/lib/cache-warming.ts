@@ -0,0 +1,223 @@
+/**
+ * Warming the tile cache for /api/cache/warm
+ *
+ * A run fills the tile cache for a list of locations and for the most
+ * searched tiles, so the first search there does not wait for Wikidata.
+ * Tiles are fetched through the configured event source and the shared
+ * SPARQL client, exactly as live searches fetch them, a few at a time.
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { CACHE_WARMING_CONFIG, DATE_RANGE_CONFIG, DEFAULT_RADIUS_KM, GEOGRAPHIC_CONFIG } from '@/lib/config'
+import { DEFAULT_LANGUAGES, parseLanguageParam } from '@/lib/languages'
+import { getEventSource } from '@/lib/event-sources'
+import { Tile, getQueryTiles, getTileCacheStore, parseTileKey, warmTile } from '@/lib/tile-cache'
+
+/**
+ * A place to warm: the tiles a search of `radius` km around it would use
+ */
+export interface WarmLocation {
+  name?: string
+  lat: number
+  lng: number
+  radius?: number // kilometers, defaults to the app's search radius
+}
+
+/**
+ * What a warming run covers
+ */
+export interface WarmPlan {
+  locations: WarmLocation[]
+  // Number of most searched tiles to warm, in the languages they were searched in
+  popularTiles: number
+  // Language chain for the locations
+  languages: string[]
+  // Fetch tiles again even if they are cached
+  refresh: boolean
+}
+
+/**
+ * Progress of a run, reported as it happens: one `tile` event per tile, then `done`
+ */
+export type WarmProgressEvent =
+  | { type: 'start'; source: string; tiles: number }
+  | {
+      type: 'tile'
+      tile: string
+      languages: string
+      target: string // Location name, or "popular" for most searched tiles
+      status: 'cached' | 'fetched' | 'failed'
+      items?: number
+      error?: string
+      durationMs: number
+      done: number
+      total: number
+    }
+  | { type: 'done'; fetched: number; cached: number; failed: number; durationMs: number }
+
+interface WarmTask {
+  tile: Tile
+  languages: string[]
+  target: string
+}
+
+function isWarmLocation(value: unknown): value is WarmLocation {
+  if (typeof value !== 'object' || value === null) return false
+  const { name, lat, lng, radius } = value as Record<string, unknown>
+  return (
+    (name === undefined || typeof name === 'string') &&
+    typeof lat === 'number' && lat >= -90 && lat <= 90 &&
+    typeof lng === 'number' && lng >= -180 && lng <= 180 &&
+    (radius === undefined || (typeof radius === 'number' && radius >= 1 && radius <= GEOGRAPHIC_CONFIG.MAX_RADIUS_KM))
+  )
+}
+
+/**
+ * Locations warmed by default, from CACHE_WARMING_CONFIG.LOCATIONS_PATH
+ */
+async function readDefaultLocations(): Promise<WarmLocation[]> {
+  const locationsPath = CACHE_WARMING_CONFIG.LOCATIONS_PATH
+  const resolvedPath = path.isAbsolute(locationsPath) ? locationsPath : path.join(process.cwd(), locationsPath)
+  const locations: unknown = JSON.parse(await readFile(resolvedPath, 'utf-8'))
+  if (!Array.isArray(locations) || !locations.every(isWarmLocation)) {
+    throw new Error(`Invalid warm locations in ${locationsPath}. Expected an array of { name, lat, lng, radius }.`)
+  }
+  return locations
+}
+
+/**
+ * Validate a warming request body. Without locations, the default locations are
+ * warmed; without `popular`, the default number of most searched tiles is.
+ */
+export async function parseWarmPlan(body: unknown): Promise<{ plan: WarmPlan } | { error: string }> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Invalid body. Send a JSON object, e.g. {"locations": [{"lat": 40.71, "lng": -74.01}], "popular": 20}.' }
+  }
+  const { locations, popular, lang, refresh } = body as Record<string, unknown>
+
+  if (locations !== undefined && (!Array.isArray(locations) || !locations.every(isWarmLocation))) {
+    return { error: `Invalid locations. Provide an array of { name, lat, lng, radius } with radius between 1 and ${GEOGRAPHIC_CONFIG.MAX_RADIUS_KM}km.` }
+  }
+  if (locations && locations.length > CACHE_WARMING_CONFIG.MAX_LOCATIONS) {
+    return { error: `Too many locations. Maximum allowed is ${CACHE_WARMING_CONFIG.MAX_LOCATIONS}.` }
+  }
+
+  const popularTiles = popular ?? CACHE_WARMING_CONFIG.DEFAULT_POPULAR_TILES
+  if (typeof popularTiles !== 'number' || !Number.isInteger(popularTiles) || popularTiles < 0 || popularTiles > CACHE_WARMING_CONFIG.MAX_POPULAR_TILES) {
+    return { error: `Invalid popular. popular must be an integer between 0 and ${CACHE_WARMING_CONFIG.MAX_POPULAR_TILES}.` }
+  }
+
+  if (lang !== undefined && typeof lang !== 'string') {
+    return { error: 'Invalid lang. Provide a comma-separated language chain, e.g. "de,en".' }
+  }
+  const languageResult = parseLanguageParam(lang ?? null)
+  if ('error' in languageResult) {
+    return { error: languageResult.error }
+  }
+
+  if (refresh !== undefined && typeof refresh !== 'boolean') {
+    return { error: 'Invalid refresh. refresh must be true or false.' }
+  }
+
+  return {
+    plan: {
+      locations: (locations as WarmLocation[] | undefined) ?? await readDefaultLocations(),
+      popularTiles,
+      languages: languageResult.languages,
+      refresh: refresh ?? false
+    }
+  }
+}
+
+/**
+ * The default run, as used by scheduled warming
+ */
+export async function getDefaultWarmPlan(): Promise<WarmPlan> {
+  return {
+    locations: await readDefaultLocations(),
+    popularTiles: CACHE_WARMING_CONFIG.DEFAULT_POPULAR_TILES,
+    languages: DEFAULT_LANGUAGES,
+    refresh: false
+  }
+}
+
+/**
+ * Tiles of the plan's locations followed by the most searched tiles, each tile and language chain once
+ */
+async function getWarmTasks(sourceName: string, plan: WarmPlan): Promise<WarmTask[]> {
+  const tasks = new Map<string, WarmTask>()
+  const addTask = (task: WarmTask) => {
+    const key = `${task.languages.join(',')}|${task.tile.key}`
+    if (!tasks.has(key)) tasks.set(key, task)
+  }
+
+  for (const { name, lat, lng, radius = DEFAULT_RADIUS_KM } of plan.locations) {
+    const target = name ?? `${lat},${lng}`
+    for (const tile of getQueryTiles({ lat, lng, radius })) {
+      addTask({ tile, languages: plan.languages, target })
+    }
+  }
+
+  if (plan.popularTiles > 0) {
+    const popular = await getTileCacheStore()?.getPopularTiles(sourceName, plan.popularTiles) ?? []
+    for (const { tile: tileKey, languages } of popular) {
+      const tile = parseTileKey(tileKey)
+      // Tiles from an earlier zoom configuration no longer match any search
+      if (tile) addTask({ tile, languages: languages.split(','), target: 'popular' })
+    }
+  }
+
+  return Array.from(tasks.values())
+}
+
+/**
+ * Warm the tile cache for a plan, reporting each tile as it finishes.
+ * Failed tiles are reported and skipped; the run carries on with the rest.
+ */
+export async function warmCache(plan: WarmPlan, onProgress: (event: WarmProgressEvent) => void): Promise<void> {
+  const startTime = Date.now()
+  const source = getEventSource()
+  const tasks = await getWarmTasks(source.name, plan)
+  const timeRange = { startYear: DATE_RANGE_CONFIG.DEFAULT_START_YEAR, endYear: new Date().getFullYear() }
+
+  onProgress({ type: 'start', source: source.name, tiles: tasks.length })
+  console.log(`Cache warming: ${tasks.length} tiles for ${source.name}`)
+
+  const counts = { fetched: 0, cached: 0, failed: 0 }
+  let nextTask = 0
+  let done = 0
+
+  const worker = async () => {
+    while (nextTask < tasks.length) {
+      const { tile, languages, target } = tasks[nextTask++]
+      const tileStart = Date.now()
+      const report = { type: 'tile' as const, tile: tile.key, languages: languages.join(','), target }
+
+      try {
+        const { status, items } = await warmTile(source, tile, { ...timeRange, languages }, plan.refresh)
+        counts[status]++
+        done++
+        onProgress({ ...report, status, items, durationMs: Date.now() - tileStart, done, total: tasks.length })
+      } catch (error) {
+        counts.failed++
+        done++
+        console.error(`Cache warming: tile ${tile.key} failed:`, error)
+        onProgress({
+          ...report,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          durationMs: Date.now() - tileStart,
+          done,
+          total: tasks.length
+        })
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: CACHE_WARMING_CONFIG.CONCURRENCY }, worker))
+
+  const durationMs = Date.now() - startTime
+  console.log(`Cache warming: ${counts.fetched} fetched, ${counts.cached} already cached, ${counts.failed} failed in ${durationMs}ms`)
+  onProgress({ type: 'done', ...counts, durationMs })
+}
@@ -0,0 +1,124 @@
+/**
+ * Curated event taxonomy built on Wikidata "instance of" (P31) classes
+ *
+ * Only direct P31 values are matched; walking the subclass tree (P279*)
+ * for every result is too expensive on the public SPARQL endpoint, so the
+ * lists below include the common specific classes as well as the general ones.
+ */
+
+import { EventCategory, EventCategoryKey } from '@/types/events'
+
+export const EVENT_CATEGORIES: Record<EventCategoryKey, { label: string; classes: string[] }> = {
+  battle: {
+    label: 'Battle',
+    classes: [
+      'Q178561', // battle
+      'Q1261499', // naval battle
+      'Q188055', // siege
+      'Q198', // war
+    ],
+  },
+  disaster: {
+    label: 'Disaster',
+    classes: [
+      'Q3839081', // disaster
+      'Q8065', // natural disaster
+      'Q7944', // earthquake
+      'Q8068', // flood
+      'Q3196', // fire
+      'Q168247', // famine
+      'Q44512', // epidemic
+      'Q12184', // pandemic
+      'Q2223653', // terrorist attack
+    ],
+  },
+  building: {
+    label: 'Building',
+    classes: [
+      'Q41176', // building
+      'Q11303', // skyscraper
+      'Q16970', // church building
+      'Q44539', // temple
+      'Q23413', // castle
+      'Q16560', // palace
+      'Q57821', // fortification
+      'Q12518', // tower
+      'Q12280', // bridge
+      'Q12570', // suspension bridge
+      'Q82117', // city gate
+      'Q33506', // museum
+      'Q4989906', // monument
+      'Q179700', // statue
+    ],
+  },
+  treaty: {
+    label: 'Treaty',
+    classes: [
+      'Q131569', // treaty
+      'Q625298', // peace treaty
+    ],
+  },
+  birth: {
+    label: 'Birth',
+    classes: [
+      'Q5', // human - births are located at the place of birth (P19) and dated by the date of birth (P569)
+    ],
+  },
+  political: {
+    label: 'Political event',
+    classes: [
+      'Q40231', // election
+      'Q273120', // protest
+      'Q124757', // riot
+      'Q10931', // revolution
+      'Q45382', // coup d'état
+      'Q3882219', // assassination
+    ],
+  },
+  culture: {
+    label: 'Culture',
+    classes: [
+      'Q132241', // festival
+      'Q464980', // exhibition
+      'Q172754', // world's fair
+      'Q182832', // concert
+    ],
+  },
+  sports: {
+    label: 'Sports',
+    classes: [
+      'Q16510064', // sporting event
+      'Q5389', // Olympic Games
+    ],
+  },
+  other: {
+    label: 'Other',
+    classes: [],
+  },
+}
+
+export const EVENT_CATEGORY_KEYS = Object.keys(EVENT_CATEGORIES) as EventCategoryKey[]
+
+// Reverse lookup from Q-id to category
+const CATEGORY_BY_CLASS = new Map<string, EventCategoryKey>(
+  EVENT_CATEGORY_KEYS.flatMap((key) => EVENT_CATEGORIES[key].classes.map((qid) => [qid, key] as const))
+)
+
+/**
+ * Map the P31 classes of an item onto the taxonomy.
+ * Classes the taxonomy does not know about are kept with category "other".
+ */
+export function categorizeInstances(instances: { id: string; label?: string }[] = []): EventCategory[] {
+  return instances.map(({ id, label }) => ({
+    id,
+    label,
+    category: CATEGORY_BY_CLASS.get(id) ?? 'other',
+  }))
+}
+
+/**
+ * The category an event is shown as: its first one from the taxonomy, or "other"
+ */
+export function getPrimaryCategory(categories: EventCategory[] = []): EventCategoryKey {
+  return categories.find(({ category }) => category !== 'other')?.category ?? 'other'
+}
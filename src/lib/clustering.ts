@@ -0,0 +1,89 @@
+/**
+ * Grid-based marker clustering for /api/events/clusters
+ *
+ * Events are projected to Web Mercator pixels at the requested zoom level
+ * (512px tiles, as used by Mapbox GL) and grouped by grid cell. A cell with
+ * a single event returns the event itself; larger cells become a cluster at
+ * the centroid of their events.
+ */
+
+import { ClusterFeature, EventFeature } from '@/types/events'
+import { CLUSTER_CONFIG } from '@/lib/config'
+
+const TILE_SIZE = 512
+
+/**
+ * Grid cell of a [lng, lat] position at a zoom level, as "x/y"
+ */
+function getCellKey([lng, lat]: [number, number], zoom: number): string {
+  const worldSize = TILE_SIZE * 2 ** zoom
+  const x = ((lng + 180) / 360) * worldSize
+  // Clamp to the latitudes Web Mercator can represent
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999)
+  const y = (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * worldSize
+  return `${Math.floor(x / CLUSTER_CONFIG.CELL_SIZE_PX)}/${Math.floor(y / CLUSTER_CONFIG.CELL_SIZE_PX)}`
+}
+
+function groupByCell(features: EventFeature[], zoom: number): Map<string, EventFeature[]> {
+  const cells = new Map<string, EventFeature[]>()
+  for (const feature of features) {
+    const key = getCellKey(feature.geometry.coordinates, zoom)
+    const cell = cells.get(key)
+    if (cell) {
+      cell.push(feature)
+    } else {
+      cells.set(key, [feature])
+    }
+  }
+  return cells
+}
+
+/**
+ * First zoom level above `zoom` at which the events no longer share a cell.
+ * Events at the same spot never split; they expand just past the clustering limit.
+ */
+function getExpansionZoom(features: EventFeature[], zoom: number): number {
+  for (let next = zoom + 1; next <= CLUSTER_CONFIG.MAX_ZOOM; next++) {
+    if (groupByCell(features, next).size > 1) {
+      return next
+    }
+  }
+  return CLUSTER_CONFIG.MAX_ZOOM + 1
+}
+
+/**
+ * Cluster features for display at an integer zoom level.
+ * Features must already be sorted: the first feature of a cluster provides its label.
+ */
+export function clusterFeatures(features: EventFeature[], zoom: number): (ClusterFeature | EventFeature)[] {
+  if (zoom > CLUSTER_CONFIG.MAX_ZOOM) {
+    return features
+  }
+
+  return Array.from(groupByCell(features, zoom), ([key, cell]) => {
+    if (cell.length === 1) {
+      return cell[0]
+    }
+
+    const lng = cell.reduce((sum, { geometry }) => sum + geometry.coordinates[0], 0) / cell.length
+    const lat = cell.reduce((sum, { geometry }) => sum + geometry.coordinates[1], 0) / cell.length
+    return {
+      type: 'Feature' as const,
+      geometry: {
+        type: 'Point' as const,
+        coordinates: [lng, lat] as [number, number]
+      },
+      properties: {
+        cluster: true as const,
+        id: `cluster/${zoom}/${key}`,
+        count: cell.length,
+        label: cell[0].properties.label,
+        expansionZoom: getExpansionZoom(cell, zoom)
+      }
+    }
+  })
+}
+
+export function isClusterFeature(feature: ClusterFeature | EventFeature): feature is ClusterFeature {
+  return 'cluster' in feature.properties && feature.properties.cluster === true
+}
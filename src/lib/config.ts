@@ -15,6 +15,9 @@ export const GEOGRAPHIC_CONFIG = {
   
   // Maximum allowed radius in kilometers (from API validation)
   MAX_RADIUS_KM: 500,
+
+  // Maximum number of vertices in a polygon sent to POST /api/events
+  MAX_POLYGON_VERTICES: 2000,
 } as const
 
 // Calculate the default radius in kilometers
@@ -29,3 +32,230 @@ export const milesToKm = (miles: number): number => {
 export const kmToMiles = (km: number): number => {
   return km / GEOGRAPHIC_CONFIG.MILES_TO_KM
 }
+
+// Event source configuration (server-side only)
+export const EVENT_SOURCE_CONFIG = {
+  // Which provider backs /api/events: "wikidata" or "fixture"
+  PROVIDER: process.env.EVENT_SOURCE || 'wikidata',
+
+  // GeoJSON file used by the fixture provider, relative to the project root
+  FIXTURE_PATH: process.env.EVENT_SOURCE_FIXTURE_PATH || 'src/data/events.fixture.json',
+
+  // Upper bound on the number of result rows requested from Wikidata per search
+  MAX_RESULTS: 5000,
+
+  // Births are queried separately and only the people with the most Wikipedia and other
+  // sitelinks are kept, since a big city is the birthplace of tens of thousands of people
+  MAX_BIRTHS: 200,
+
+  // Event details (/api/events/[qid]) change rarely and are cached separately from area searches
+  DETAIL_CACHE_SECONDS: 86400,
+} as const
+
+// Persistent cache of event source results per map tile and year span (server-side only)
+export const TILE_CACHE_CONFIG = {
+  // "supabase", "file" or "none"; defaults to Supabase when a service role key is set, and to local files otherwise
+  STORE: process.env.TILE_CACHE_STORE || (process.env.SUPABASE_SERVICE_ROLE_KEY ? 'supabase' : 'file'),
+
+  // Directory of the file store, relative to the project root
+  FILE_DIR: process.env.TILE_CACHE_DIR || '.cache/event-tiles',
+
+  // Table of the Supabase store, see supabase/migrations
+  TABLE: 'event_tile_cache',
+
+  // Areas are covered with XYZ tiles at the finest zoom in this range that needs at most MAX_TILES_PER_QUERY tiles
+  MIN_ZOOM: 4,
+  MAX_ZOOM: 10,
+  MAX_TILES_PER_QUERY: 16,
+
+  // A tile whose query hits the event source's row limit is fetched again as its four
+  // children, down to this zoom; tiles still truncated there are returned but not cached
+  MAX_SPLIT_ZOOM: 13,
+
+  // Most queries one search may send for the children of truncated tiles. A dense area
+  // could otherwise fan out to thousands of queries; what is left truncated is not cached.
+  MAX_SPLIT_QUERIES: 64,
+
+  // Year ranges are widened to multiples of this, so similar ranges share cached tiles
+  YEAR_SPAN: 100,
+
+  // How long a cached tile is served before it is fetched again
+  TTL_SECONDS: 7 * 24 * 3600,
+} as const
+
+// Warming the tile cache ahead of searches (POST /api/cache/warm, npm run warm-cache)
+export const CACHE_WARMING_CONFIG = {
+  // Locations warmed when a run does not name any, relative to the project root
+  LOCATIONS_PATH: process.env.CACHE_WARM_LOCATIONS_PATH || 'src/data/warm-locations.json',
+
+  // Most searched tiles warmed when a run does not say how many
+  DEFAULT_POPULAR_TILES: 50,
+
+  MAX_LOCATIONS: 200,
+  MAX_POPULAR_TILES: 500,
+
+  // Tiles fetched at the same time; live searches share the SPARQL client's slots, so leave them some
+  CONCURRENCY: 2,
+} as const
+
+// Corridor searches along a route (POST /api/events/corridor)
+export const CORRIDOR_CONFIG = {
+  DEFAULT_BUFFER_KM: 2,
+  MAX_BUFFER_KM: 50,
+
+  MAX_ROUTE_VERTICES: 5000,
+  MAX_ROUTE_LENGTH_KM: 3000,
+
+  // Routes are queried in pieces of at most this length, each with its own bounding box
+  CHUNK_LENGTH_KM: 100,
+
+  // Most event source queries one route search may send, counting those for the children of
+  // truncated tiles; routes over more uncached tiles than this are rejected, and splitting
+  // stops once the rest is spent, rather than sending hundreds of queries to Wikidata
+  MAX_SOURCE_QUERIES: 100,
+} as const
+
+// Related events for /api/events/[qid]/related
+export const RELATED_CONFIG = {
+  // Events within this distance of the selected event are suggested as nearby
+  NEARBY_RADIUS_KM: 3,
+
+  // Most events taken from each kind of graph relation, and returned in total
+  MAX_PER_RELATION: 50,
+  MAX_RESULTS: 20,
+} as const
+
+// Event search by name for /api/search
+export const SEARCH_CONFIG = {
+  MIN_QUERY_LENGTH: 2,
+  MAX_QUERY_LENGTH: 200,
+
+  DEFAULT_LIMIT: 10,
+  MAX_LIMIT: 50,
+} as const
+
+// Place-name search for /api/geocode
+export const GEOCODING_CONFIG = {
+  // Offline gazetteer, relative to the project root; regenerate with npm run build:gazetteer
+  GAZETTEER_PATH: process.env.GAZETTEER_PATH || 'src/data/gazetteer.json',
+
+  // Mapbox forward geocoding, used instead of the gazetteer when a token is configured
+  MAPBOX_ENDPOINT: 'https://api.mapbox.com/search/geocode/v6/forward',
+  MAPBOX_TIMEOUT_MS: 5000,
+
+  MIN_QUERY_LENGTH: 2,
+  MAX_QUERY_LENGTH: 200,
+
+  DEFAULT_LIMIT: 5,
+  MAX_LIMIT: 10,
+} as const
+
+// Marker clustering for /api/events/clusters
+export const CLUSTER_CONFIG = {
+  // Size of the grid cells events are grouped into, in screen pixels
+  CELL_SIZE_PX: 60,
+
+  // Highest zoom level at which events are clustered; above it every event is returned individually
+  MAX_ZOOM: 16,
+} as const
+
+// iCalendar feed of event anniversaries at /api/events/anniversaries.ics
+export const CALENDAR_CONFIG = {
+  // How often subscribed calendar apps should fetch the feed again
+  REFRESH_HOURS: 24,
+
+  // Anniversaries recur yearly from this year on; a leap year, so February 29 is a valid start
+  FIRST_YEAR: 2000,
+} as const
+
+// Pagination configuration for /api/events
+export const PAGINATION_CONFIG = {
+  DEFAULT_PAGE_SIZE: 50,
+  MAX_PAGE_SIZE: 500,
+} as const
+
+// Year range defaults for /api/events; negative years are BC
+export const DATE_RANGE_CONFIG = {
+  // Early enough to include antiquity, e.g. -44 for the assassination of Julius Caesar
+  DEFAULT_START_YEAR: -3000,
+} as const
+
+// Wikibase action API, used to read whole entities (server-side only)
+export const WIKIDATA_API_CONFIG = {
+  ENDPOINT: 'https://www.wikidata.org/w/api.php',
+  TIMEOUT_MS: 15000,
+
+  // wbgetentities accepts at most 50 ids per request
+  MAX_IDS_PER_REQUEST: 50,
+} as const
+
+// Event images: P18 Commons files and Wikipedia page images (server-side only)
+export const IMAGE_CONFIG = {
+  // Set RESOLVE_EVENT_IMAGES=false to return P18 files as plain Special:FilePath links
+  ENABLED: process.env.RESOLVE_EVENT_IMAGES !== 'false',
+
+  COMMONS_API: 'https://commons.wikimedia.org/w/api.php',
+  TIMEOUT_MS: 5000,
+
+  // Thumbnails fit in this box, keeping their aspect ratio
+  THUMBNAIL_WIDTH: 320,
+  THUMBNAIL_HEIGHT: 240,
+
+  // The action API accepts at most 50 titles per request
+  MAX_TITLES_PER_REQUEST: 50,
+
+  // Resolved images kept in memory, and for how long; lookups that failed are retried sooner
+  CACHE_SIZE: 5000,
+  CACHE_TTL_MS: 24 * 60 * 60 * 1000,
+  FAILURE_TTL_MS: 5 * 60 * 1000,
+} as const
+
+// Image proxy at /api/images, which serves event images from our own origin
+export const IMAGE_PROXY_CONFIG = {
+  // Only Wikimedia images are proxied; Special:FilePath redirects to upload.wikimedia.org
+  ALLOWED_HOSTS: ['upload.wikimedia.org', 'commons.wikimedia.org'],
+
+  // Widths the proxy resizes to, so the cache holds a few sizes per image
+  WIDTHS: [160, 320, 640],
+  DEFAULT_WIDTH: 320,
+  QUALITY: 75,
+
+  // Resized images on disk (server-side only)
+  CACHE_DIR: process.env.IMAGE_CACHE_DIR || '.cache/images',
+  CACHE_MAX_AGE_SECONDS: 7 * 24 * 60 * 60,
+
+  // Upstream fetches: per-request timeout, redirects followed and largest original accepted
+  TIMEOUT_MS: 10000,
+  MAX_REDIRECTS: 3,
+  MAX_SOURCE_BYTES: 20 * 1024 * 1024,
+} as const
+
+// SPARQL client configuration (server-side only)
+export const SPARQL_CONFIG = {
+  ENDPOINT: 'https://query.wikidata.org/sparql',
+  USER_AGENT: 'Places-History-App/1.0 (https://github.com/your-repo)',
+
+  // Per-attempt timeout for a single SPARQL request
+  TIMEOUT_MS: 30000,
+
+  // Retries after the first attempt for 429/5xx responses and network errors
+  MAX_RETRIES: 3,
+
+  // Exponential backoff: base * 2^attempt with full jitter, capped
+  BASE_BACKOFF_MS: 500,
+  MAX_BACKOFF_MS: 10000,
+
+  // Longest Retry-After we are willing to wait inside a request; longer
+  // waits trip the circuit breaker instead
+  MAX_RETRY_AFTER_MS: 15000,
+
+  // Wikidata allows 5 parallel queries per client; stay below that
+  MAX_CONCURRENT_QUERIES: 4,
+
+  // Consecutive failed queries before the circuit opens, and how long it stays open
+  CIRCUIT_FAILURE_THRESHOLD: 5,
+  CIRCUIT_COOLDOWN_MS: 30000,
+
+  // Number of successful results kept for serving stale data while Wikidata is unhealthy
+  STALE_CACHE_SIZE: 200,
+} as const
@@ -0,0 +1,188 @@
+/**
+ * Corridor searches: events within a buffer distance of a route polyline
+ *
+ * Long routes are split into chunks of at most CHUNK_LENGTH_KM, each queried
+ * with its own bounding box grown by the buffer, so a road trip never needs
+ * one huge box. Events are then measured against every segment of the route
+ * to get their distance from it and their position along it.
+ */
+
+import { CORRIDOR_CONFIG } from '@/lib/config'
+import { BoundingBox, calculateDistance } from '@/lib/geo'
+import { GeometryError, Position, isPosition } from '@/lib/geometry'
+
+// Kilometers per degree of latitude
+const KM_PER_DEGREE = 111.32
+
+/**
+ * Where an event lies relative to a route
+ */
+export interface RouteLocation {
+  distance: number // km from the closest point of the route
+  position: number // km along the route to that closest point
+}
+
+export function getRouteLength(route: Position[]): number {
+  let length = 0
+  for (let i = 1; i < route.length; i++) {
+    length += calculateDistance(route[i - 1][1], route[i - 1][0], route[i][1], route[i][0])
+  }
+  return length
+}
+
+/**
+ * Validate a GeoJSON LineString, accepting either a bare geometry or a Feature
+ */
+export function parseRoute(value: unknown): { route: Position[] } | { error: GeometryError } {
+  const geometry = (value as { type?: string })?.type === 'Feature'
+    ? (value as { geometry?: unknown }).geometry
+    : value
+  const { type, coordinates } = (geometry ?? {}) as { type?: unknown; coordinates?: unknown }
+
+  if (type !== 'LineString' || !Array.isArray(coordinates)) {
+    return {
+      error: {
+        code: 'invalid_geometry',
+        message: 'Body must be a GeoJSON LineString, or a Feature with one as its geometry.'
+      }
+    }
+  }
+
+  if (coordinates.length < 2 || !coordinates.every(isPosition)) {
+    return { error: { code: 'invalid_geometry', message: 'A route needs at least 2 [lng, lat] positions.' } }
+  }
+
+  if (coordinates.some(([lng, lat]) => lng < -180 || lng > 180 || lat < -90 || lat > 90)) {
+    return { error: { code: 'invalid_geometry', message: 'Longitudes must be within -180..180 and latitudes within -90..90.' } }
+  }
+
+  if (coordinates.length > CORRIDOR_CONFIG.MAX_ROUTE_VERTICES) {
+    return {
+      error: {
+        code: 'too_many_vertices',
+        message: `Route has too many vertices. Maximum allowed is ${CORRIDOR_CONFIG.MAX_ROUTE_VERTICES}; simplify it first.`,
+        details: { vertices: coordinates.length, max: CORRIDOR_CONFIG.MAX_ROUTE_VERTICES }
+      }
+    }
+  }
+
+  const route = coordinates.map(([lng, lat]) => [lng, lat] as Position)
+  const length = getRouteLength(route)
+  if (length > CORRIDOR_CONFIG.MAX_ROUTE_LENGTH_KM) {
+    return {
+      error: {
+        code: 'route_too_long',
+        message: `Route too long. Maximum allowed length is ${CORRIDOR_CONFIG.MAX_ROUTE_LENGTH_KM}km.`,
+        details: { lengthKm: Math.round(length), maxKm: CORRIDOR_CONFIG.MAX_ROUTE_LENGTH_KM }
+      }
+    }
+  }
+
+  return { route }
+}
+
+/**
+ * Parse the corridor half-width in km, returning an error message for invalid values
+ */
+export function parseBufferParam(value: string | null): { bufferKm: number } | { error: string } {
+  const bufferKm = value ? Number(value) : CORRIDOR_CONFIG.DEFAULT_BUFFER_KM
+  if (isNaN(bufferKm) || bufferKm <= 0 || bufferKm > CORRIDOR_CONFIG.MAX_BUFFER_KM) {
+    return { error: `Invalid buffer. buffer must be a number of km greater than 0 and at most ${CORRIDOR_CONFIG.MAX_BUFFER_KM}.` }
+  }
+  return { bufferKm }
+}
+
+/**
+ * Bounding box of some positions, grown by `bufferKm` on every side
+ */
+export function getBufferedBoundingBox(positions: Position[], bufferKm: number): BoundingBox {
+  const lngs = positions.map(([lng]) => lng)
+  const lats = positions.map(([, lat]) => lat)
+  const minLat = Math.min(...lats)
+  const maxLat = Math.max(...lats)
+
+  // Degrees of longitude shrink towards the poles; pad for the latitude where they are shortest
+  const widestLatitude = Math.min(89, Math.max(Math.abs(minLat), Math.abs(maxLat)))
+  const latPadding = bufferKm / KM_PER_DEGREE
+  const lngPadding = bufferKm / (KM_PER_DEGREE * Math.cos(widestLatitude * Math.PI / 180))
+
+  return {
+    minLng: Math.max(-180, Math.min(...lngs) - lngPadding),
+    minLat: Math.max(-90, minLat - latPadding),
+    maxLng: Math.min(180, Math.max(...lngs) + lngPadding),
+    maxLat: Math.min(90, maxLat + latPadding)
+  }
+}
+
+/**
+ * Split the route into pieces of at most CHUNK_LENGTH_KM and return the buffered bounding box of each.
+ * Segments longer than a chunk are cut into equal parts first.
+ */
+export function getRouteChunks(route: Position[], bufferKm: number): BoundingBox[] {
+  const chunks: BoundingBox[] = []
+  let chunk: Position[] = [route[0]]
+  let chunkLength = 0
+
+  for (let i = 1; i < route.length; i++) {
+    const [startLng, startLat] = route[i - 1]
+    const [endLng, endLat] = route[i]
+    const segmentLength = calculateDistance(startLat, startLng, endLat, endLng)
+    const parts = Math.max(1, Math.ceil(segmentLength / CORRIDOR_CONFIG.CHUNK_LENGTH_KM))
+    const partLength = segmentLength / parts
+
+    for (let part = 1; part <= parts; part++) {
+      const t = part / parts
+      const point: Position = [startLng + (endLng - startLng) * t, startLat + (endLat - startLat) * t]
+
+      if (chunkLength + partLength > CORRIDOR_CONFIG.CHUNK_LENGTH_KM && chunk.length > 1) {
+        chunks.push(getBufferedBoundingBox(chunk, bufferKm))
+        chunk = [chunk[chunk.length - 1]]
+        chunkLength = 0
+      }
+
+      chunk.push(point)
+      chunkLength += partLength
+    }
+  }
+
+  chunks.push(getBufferedBoundingBox(chunk, bufferKm))
+  return chunks
+}
+
+/**
+ * Closest point to (lat, lng) on the segment from a to b.
+ * The projection is done in a plane scaled by cos(latitude), so that east-west
+ * and north-south degrees are comparable, and the result is measured with calculateDistance.
+ */
+function getClosestPointOnSegment(a: Position, b: Position, lat: number, lng: number): Position {
+  const scale = Math.cos(lat * Math.PI / 180)
+  const dx = (b[0] - a[0]) * scale
+  const dy = b[1] - a[1]
+  const lengthSquared = dx * dx + dy * dy
+  if (lengthSquared === 0) return a
+
+  const t = Math.max(0, Math.min(1, (((lng - a[0]) * scale) * dx + (lat - a[1]) * dy) / lengthSquared))
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]
+}
+
+/**
+ * Find the distance of a point from the route and its position along it
+ */
+export function locateOnRoute(route: Position[], lat: number, lng: number): RouteLocation {
+  let best: RouteLocation = { distance: Infinity, position: 0 }
+  let travelled = 0
+
+  for (let i = 1; i < route.length; i++) {
+    const start = route[i - 1]
+    const end = route[i]
+    const [closestLng, closestLat] = getClosestPointOnSegment(start, end, lat, lng)
+    const distance = calculateDistance(lat, lng, closestLat, closestLng)
+
+    if (distance < best.distance) {
+      best = { distance, position: travelled + calculateDistance(start[1], start[0], closestLat, closestLng) }
+    }
+    travelled += calculateDistance(start[1], start[0], end[1], end[0])
+  }
+
+  return best
+}
@@ -0,0 +1,164 @@
+/**
+ * Event date handling shared by the API and the UI
+ *
+ * Event dates are strings of the form YYYY-MM-DD using ISO 8601 astronomical
+ * year numbering, as in the Wikidata RDF export: year 0 is 1 BC and "-0043"
+ * is 44 BC. Parts finer than the date's precision are placeholders (a
+ * year-precision date is stored as YYYY-01-01) and must not be displayed.
+ */
+
+import { DatePrecision, HistoricalEvent } from '@/types/events'
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+// Wikibase time precision codes, see https://www.wikidata.org/wiki/Help:Dates#Precision
+const WIKIBASE_PRECISIONS: Record<number, DatePrecision> = {
+  11: 'day',
+  10: 'month',
+  9: 'year',
+  8: 'decade',
+  7: 'century',
+}
+
+/**
+ * Convert a year where negative values are BC (-44 is 44 BC) to astronomical numbering (-43)
+ */
+export function toAstronomicalYear(year: number): number {
+  return year < 0 ? year + 1 : year
+}
+
+/**
+ * Map a wikibase:timePrecision value onto a DatePrecision.
+ * Missing values are treated as day precision; millennium and coarser precisions are reported as century.
+ */
+export function getDatePrecision(wikibasePrecision: number): DatePrecision {
+  if (isNaN(wikibasePrecision) || wikibasePrecision >= 11) return 'day'
+  return WIKIBASE_PRECISIONS[wikibasePrecision] ?? 'century'
+}
+
+/**
+ * Turn a Wikidata time value like "-0043-03-15T00:00:00Z" into "-0043-03-15".
+ * Parsing is done on the string because `Date` cannot represent most BC dates.
+ * The JSON API writes unknown months and days as "00", e.g. "+1857-00-00T00:00:00Z";
+ * they become "01" like in the RDF export.
+ */
+export function parseWikidataTime(value?: string): string | undefined {
+  const match = value?.match(/^([+-]?\d{1,})-(\d{2})-(\d{2})/)
+  if (!match) return undefined
+
+  const year = parseInt(match[1])
+  const sign = year < 0 ? '-' : ''
+  const month = match[2] === '00' ? '01' : match[2]
+  const day = match[3] === '00' ? '01' : match[3]
+  return `${sign}${Math.abs(year).toString().padStart(4, '0')}-${month}-${day}`
+}
+
+/**
+ * Split an event date into numeric parts, or return null for unknown dates
+ */
+export function parseEventDate(date?: string): { year: number; month: number; day: number } | null {
+  const match = date?.match(/^(-?\d+)(?:-(\d{2}))?(?:-(\d{2}))?/)
+  if (!match) return null
+  return {
+    year: parseInt(match[1]),
+    month: parseInt(match[2] || '1'),
+    day: parseInt(match[3] || '1')
+  }
+}
+
+/**
+ * A day of the year without a year, as used by "on this day" searches
+ */
+export interface MonthDay {
+  month: number
+  day: number
+}
+
+/**
+ * Parse an "MM-DD" day of the year such as "07-04". February 29 is accepted.
+ */
+export function parseMonthDay(value: string): MonthDay | null {
+  const match = value.match(/^(\d{2})-(\d{2})$/)
+  if (!match) return null
+
+  const month = parseInt(match[1])
+  const day = parseInt(match[2])
+  // 2000 is a leap year, so this allows up to the 29th in February
+  const daysInMonth = new Date(Date.UTC(2000, month, 0)).getUTCDate()
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth) return null
+  return { month, day }
+}
+
+/**
+ * Format a day of the year as "MM-DD"
+ */
+export function formatMonthDay({ month, day }: MonthDay): string {
+  return `${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`
+}
+
+/**
+ * Whether an event started on this day of the year in any year.
+ * Only day-precise dates count, since coarser ones carry placeholder months and days.
+ */
+export function isOnMonthDay({ date, startDate, precision }: HistoricalEvent['properties'], { month, day }: MonthDay): boolean {
+  if ((precision ?? 'day') !== 'day') return false
+  const parts = parseEventDate(startDate ?? date)
+  return parts !== null && parts.month === month && parts.day === day
+}
+
+/**
+ * Display an astronomical year, e.g. 1886 -> "1886", -43 -> "44 BC"
+ */
+function formatYear(year: number): string {
+  return year > 0 ? year.toString() : `${1 - year} BC`
+}
+
+/**
+ * Format an event date for display at the given precision:
+ * "March 15, 44 BC", "October 1886", "1886", "1880s", "c. 1200s"
+ */
+export function formatEventDate(date: string | undefined, precision: DatePrecision = 'day'): string {
+  const parts = parseEventDate(date)
+  if (!parts) {
+    return 'Date unknown'
+  }
+
+  const { year, month, day } = parts
+  const monthName = MONTH_NAMES[month - 1]
+
+  switch (precision) {
+    case 'century': {
+      // Centuries run from 1 to 100 in historical numbering, so 1300 is still the 1200s
+      const historical = year > 0 ? year : 1 - year
+      const start = Math.floor((historical - 1) / 100) * 100
+      return `c. ${start}s${year > 0 ? '' : ' BC'}`
+    }
+    case 'decade': {
+      const historical = year > 0 ? year : 1 - year
+      return `${Math.floor(historical / 10) * 10}s${year > 0 ? '' : ' BC'}`
+    }
+    case 'year':
+      return formatYear(year)
+    case 'month':
+      return monthName ? `${monthName} ${formatYear(year)}` : formatYear(year)
+    case 'day':
+    default:
+      return monthName ? `${monthName} ${day}, ${formatYear(year)}` : formatYear(year)
+  }
+}
+
+/**
+ * Format the date of an event, including its end date when it spans a period
+ */
+export function formatEventDateRange({ date, startDate, endDate, precision }: HistoricalEvent['properties']): string {
+  const start = formatEventDate(startDate ?? date, precision)
+  if (!endDate || !parseEventDate(startDate ?? date)) {
+    return start
+  }
+
+  const end = formatEventDate(endDate, precision)
+  return end === start ? start : `${start} – ${end}`
+}
@@ -0,0 +1,161 @@
+/**
+ * API errors, sent as RFC 7807 problem details (application/problem+json)
+ *
+ * Route handlers throw or return these instead of building ad-hoc
+ * `{ error }` bodies, so every failure carries a stable machine-readable
+ * `code`, the HTTP status that matches its cause and, for rate limits and
+ * outages, how long to wait before retrying.
+ */
+
+import { NextResponse } from 'next/server'
+import { PROBLEM_CONTENT_TYPE, ProblemDetails } from '@/lib/problem-details'
+
+/**
+ * Base class of errors that map onto an HTTP problem response
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: string,
+    public readonly title: string,
+    public readonly retryAfterMs?: number,
+    public readonly details?: unknown
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+}
+
+/**
+ * Invalid request parameters or body (400). `code` names what was wrong,
+ * e.g. invalid_parameter or self_intersection.
+ */
+export class ValidationError extends ApiError {
+  constructor(message: string, code = 'invalid_parameter', details?: unknown) {
+    super(message, 400, code, 'Invalid request', undefined, details)
+    this.name = 'ValidationError'
+  }
+}
+
+/**
+ * A request without valid credentials, such as a missing admin token (401)
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string) {
+    super(message, 401, 'unauthorized', 'Unauthorized')
+    this.name = 'UnauthorizedError'
+  }
+}
+
+/**
+ * A request that is not allowed however it is authenticated, e.g. to a disabled feature (403)
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(message, 403, 'forbidden', 'Forbidden')
+    this.name = 'ForbiddenError'
+  }
+}
+
+/**
+ * A resource such as an event id does not exist (404)
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(message, 404, 'not_found', 'Not found')
+    this.name = 'NotFoundError'
+  }
+}
+
+/**
+ * The request cannot run in the server's current configuration, e.g. warming without a tile cache (409)
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(message, 409, 'conflict', 'Conflict')
+    this.name = 'ConflictError'
+  }
+}
+
+/**
+ * An upstream service answered with something unusable, such as an image that failed to load (502)
+ */
+export class BadGatewayError extends ApiError {
+  constructor(message: string) {
+    super(message, 502, 'bad_gateway', 'Bad gateway')
+    this.name = 'BadGatewayError'
+  }
+}
+
+/**
+ * An upstream service such as Wikidata did not answer in time (504)
+ */
+export class UpstreamTimeoutError extends ApiError {
+  constructor(message: string) {
+    super(message, 504, 'upstream_timeout', 'Upstream timeout')
+    this.name = 'UpstreamTimeoutError'
+  }
+}
+
+/**
+ * An upstream service rate-limited us (429); retry after `retryAfterMs` if it said when
+ */
+export class UpstreamRateLimitError extends ApiError {
+  constructor(message: string, retryAfterMs?: number) {
+    super(message, 429, 'upstream_rate_limited', 'Upstream rate limit', retryAfterMs)
+    this.name = 'UpstreamRateLimitError'
+  }
+}
+
+/**
+ * An upstream service failed or is temporarily unavailable (503)
+ */
+export class UpstreamError extends ApiError {
+  constructor(message: string, retryAfterMs?: number) {
+    super(message, 503, 'upstream_error', 'Upstream service unavailable', retryAfterMs)
+    this.name = 'UpstreamError'
+  }
+}
+
+/**
+ * Anything unexpected (500). The message is sent to the client, so it should not leak internals.
+ */
+export class InternalError extends ApiError {
+  constructor(message = 'Internal server error') {
+    super(message, 500, 'internal_error', 'Internal server error')
+    this.name = 'InternalError'
+  }
+}
+
+/**
+ * Serialize an error as problem details. Errors that are not ApiErrors become
+ * an InternalError with `fallbackMessage`, since their messages are not meant for clients.
+ */
+export function toProblemDetails(error: unknown, fallbackMessage?: string): ProblemDetails {
+  const apiError = error instanceof ApiError ? error : new InternalError(fallbackMessage)
+  const retryAfter = apiError.retryAfterMs !== undefined ? Math.ceil(apiError.retryAfterMs / 1000) : undefined
+
+  return {
+    type: `urn:places-history:problem:${apiError.code}`,
+    title: apiError.title,
+    status: apiError.status,
+    detail: apiError.message,
+    code: apiError.code,
+    retryAfter,
+    details: apiError.details,
+    error: apiError.message
+  }
+}
+
+/**
+ * Problem response for an error, with Retry-After when the error says when to retry
+ */
+export function problemResponse(error: unknown, fallbackMessage?: string): NextResponse {
+  const problem = toProblemDetails(error, fallbackMessage)
+  const headers: Record<string, string> = { 'Content-Type': PROBLEM_CONTENT_TYPE }
+  if (problem.retryAfter !== undefined) {
+    headers['Retry-After'] = problem.retryAfter.toString()
+  }
+  return NextResponse.json(problem, { status: problem.status, headers })
+}
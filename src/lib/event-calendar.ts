@@ -0,0 +1,124 @@
+/**
+ * iCalendar (RFC 5545) feed of event anniversaries for /api/events/anniversaries.ics
+ *
+ * Every event with a day-precise date becomes an all-day VEVENT that recurs
+ * yearly on its month and day. The recurrence starts in a fixed recent year
+ * rather than the year of the event, since calendar apps do not handle BC
+ * dates and handle very old ones poorly; the year itself is in the summary.
+ */
+
+import { EventFeature } from '@/types/events'
+import { CALENDAR_CONFIG } from '@/lib/config'
+import { EVENT_CATEGORIES } from '@/lib/categories'
+import { formatEventDate, formatEventDateRange, parseEventDate } from '@/lib/dates'
+
+// Content lines longer than this many bytes are folded
+const MAX_LINE_BYTES = 75
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and line breaks
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line into chunks of at most 75 bytes, continued with a leading space.
+ * Splits between characters so multi-byte UTF-8 sequences stay intact.
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = []
+  let chunk = ''
+  let bytes = 0
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char)
+    // Continuation lines lose one byte to the leading space
+    if (bytes + charBytes > (chunks.length === 0 ? MAX_LINE_BYTES : MAX_LINE_BYTES - 1)) {
+      chunks.push(chunk)
+      chunk = ''
+      bytes = 0
+    }
+    chunk += char
+    bytes += charBytes
+  }
+  chunks.push(chunk)
+  return chunks.join('\r\n ')
+}
+
+function formatDateValue(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+function formatDateTimeValue(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`
+}
+
+/**
+ * Content lines of the yearly VEVENT for an event, or null if its day is not known
+ */
+function toVEvent({ geometry, properties }: EventFeature, timestamp: string): string[] | null {
+  if ((properties.precision ?? 'day') !== 'day') return null
+  const parts = parseEventDate(properties.startDate ?? properties.date)
+  if (!parts) return null
+
+  const { month, day } = parts
+  const start = new Date(Date.UTC(CALENDAR_CONFIG.FIRST_YEAR, month - 1, day))
+  const end = new Date(Date.UTC(CALENDAR_CONFIG.FIRST_YEAR, month - 1, day + 1))
+  // February 29 falls on the last day of February outside leap years
+  const rule = month === 2 && day === 29
+    ? 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1'
+    : `FREQ=YEARLY;BYMONTH=${month};BYMONTHDAY=${day}`
+
+  const qid = properties.id.split('/').pop()
+  const description = [
+    properties.description,
+    formatEventDateRange(properties),
+    properties.wikipediaUrl
+  ].filter(Boolean).join('\n\n')
+  const categories = Array.from(new Set((properties.categories ?? []).map(({ category }) => category)))
+    .filter((category) => category !== 'other')
+    .map((category) => escapeText(EVENT_CATEGORIES[category].label))
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${qid}-anniversary@places-history`,
+    `DTSTAMP:${timestamp}`,
+    `DTSTART;VALUE=DATE:${formatDateValue(start)}`,
+    `DTEND;VALUE=DATE:${formatDateValue(end)}`,
+    `RRULE:${rule}`,
+    `SUMMARY:${escapeText(`${properties.label} (${formatEventDate(properties.startDate ?? properties.date, 'year')})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(properties.wikipediaUrl ? [`URL:${properties.wikipediaUrl}`] : []),
+    `GEO:${geometry.coordinates[1]};${geometry.coordinates[0]}`,
+    ...(categories.length > 0 ? [`CATEGORIES:${categories.join(',')}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ]
+}
+
+/**
+ * Serialize the anniversaries of day-precise events as a calendar named `name`.
+ * Events known only to the month or coarser are left out.
+ */
+export function toAnniversaryCalendar(features: EventFeature[], name: string): string {
+  const timestamp = formatDateTimeValue(new Date())
+  const events = features.flatMap((feature) => toVEvent(feature, timestamp) ?? [])
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Places History//Anniversaries//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${CALENDAR_CONFIG.REFRESH_HOURS}H`,
+    `X-PUBLISHED-TTL:PT${CALENDAR_CONFIG.REFRESH_HOURS}H`,
+    ...events,
+    'END:VCALENDAR',
+  ]
+  return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
@@ -0,0 +1,35 @@
+/**
+ * Event details for /api/events/[qid]
+ *
+ * Details are cached per event and language chain, independently of the
+ * area searches in event-search.ts, so opening an event never depends on
+ * which search it was found in.
+ */
+
+import { unstable_cache } from 'next/cache'
+import { EventDetail } from '@/types/events'
+import { EVENT_SOURCE_CONFIG } from '@/lib/config'
+import { getEventSource } from '@/lib/event-sources'
+
+// Wikidata item ids: "Q" followed by a number without leading zeros
+const QID = /^Q[1-9]\d*$/
+
+export function isQid(value: string): boolean {
+  return QID.test(value)
+}
+
+/**
+ * Cached lookup of one event in the configured event source, or null if it does not exist
+ */
+export async function getEventDetail(qid: string, languages: string[]): Promise<EventDetail | null> {
+  const source = getEventSource()
+  const cached = unstable_cache(
+    () => source.getEvent(qid, languages),
+    [`${source.name}-event`, qid, `lang:${languages.join(',')}`],
+    {
+      revalidate: EVENT_SOURCE_CONFIG.DETAIL_CACHE_SECONDS,
+      tags: [`${source.name}-event`]
+    }
+  )
+  return cached()
+}
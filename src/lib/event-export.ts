@@ -0,0 +1,225 @@
+/**
+ * Export of event search results for /api/events?format=...
+ *
+ * Every format carries the id, label, description, dates, coordinates,
+ * distance and Wikipedia URL of each event, so an export can be read back
+ * without losing them. Dates keep the API's astronomical year numbering
+ * ("-0043-03-15" is 44 BC) and distances are in km, unrounded.
+ */
+
+import { EventFeature } from '@/types/events'
+import { EVENT_CATEGORIES, getPrimaryCategory } from '@/lib/categories'
+
+export const EXPORT_FORMATS = ['csv', 'kml', 'gpx', 'geojson'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+// Names shown in the export menu
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV (spreadsheet)',
+  kml: 'KML (Google Earth)',
+  gpx: 'GPX (GPS waypoints)',
+  geojson: 'GeoJSON',
+}
+
+/**
+ * A serialized export, ready to be sent as a download
+ */
+export interface EventExport {
+  body: string
+  contentType: string
+  filename: string
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'label',
+  'description',
+  'date',
+  'start_date',
+  'end_date',
+  'precision',
+  'latitude',
+  'longitude',
+  'distance_km',
+  'route_position_km',
+  'wikipedia_url',
+  'categories',
+] as const
+
+// Columns of plain numbers, which are written as they are so negative coordinates stay numbers.
+// Dates are text: a BC date such as -0043-03-15 would otherwise be read as a formula.
+const CSV_NUMBER_COLUMNS = new Set<typeof CSV_COLUMNS[number]>([
+  'latitude',
+  'longitude',
+  'distance_km',
+  'route_position_km',
+])
+
+/**
+ * Validate the `format` parameter; null means a normal JSON response
+ */
+export function parseExportFormat(value: string | null): { format: ExportFormat | null } | { error: string } {
+  if (value === null) {
+    return { format: null }
+  }
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    return { error: `Invalid format. Use one of: ${EXPORT_FORMATS.join(', ')}.` }
+  }
+  return { format: value as ExportFormat }
+}
+
+/**
+ * Column values of an event, shared by the CSV columns and the KML and GPX extended data
+ */
+function getEventFields({ geometry, properties }: EventFeature): Record<typeof CSV_COLUMNS[number], string> {
+  const [lng, lat] = geometry.coordinates
+  return {
+    id: properties.id,
+    label: properties.label,
+    description: properties.description ?? '',
+    date: properties.date,
+    start_date: properties.startDate ?? '',
+    end_date: properties.endDate ?? '',
+    precision: properties.precision ?? 'day',
+    latitude: String(lat),
+    longitude: String(lng),
+    distance_km: properties.distance !== undefined ? String(properties.distance) : '',
+    route_position_km: properties.routePosition !== undefined ? String(properties.routePosition) : '',
+    wikipedia_url: properties.wikipediaUrl ?? '',
+    categories: Array.from(new Set((properties.categories ?? []).map(({ category }) => category))).join(';'),
+  }
+}
+
+/**
+ * Quote a CSV field if needed. Text that a spreadsheet app would run as a formula
+ * (starting with =, +, -, @, a tab or a carriage return) is prefixed with an apostrophe.
+ */
+function escapeCsv(value: string, isText: boolean): string {
+  const text = isText && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+/**
+ * RFC 4180 CSV with a header row. The byte order mark makes spreadsheet apps read it as UTF-8.
+ */
+function toCsv(features: EventFeature[]): string {
+  const rows = features.map((feature) => {
+    const fields = getEventFields(feature)
+    return CSV_COLUMNS.map((column) => escapeCsv(fields[column], !CSV_NUMBER_COLUMNS.has(column))).join(',')
+  })
+  return `\uFEFF${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`
+}
+
+/**
+ * An event date as an XML Schema date, year-month or year, as precise as it is known
+ */
+function toXsdDate(date: string, precision: EventFeature['properties']['precision'] = 'day'): string {
+  if (precision === 'day') return date
+  if (precision === 'month') return date.slice(0, -3)
+  return date.slice(0, -6)
+}
+
+/**
+ * KML placemarks with the event period as a TimeStamp or TimeSpan, and every field as ExtendedData
+ */
+function toKml(features: EventFeature[]): string {
+  const placemarks = features.map((feature) => {
+    const { properties, geometry } = feature
+    const begin = toXsdDate(properties.startDate ?? properties.date, properties.precision)
+    const end = properties.endDate ? toXsdDate(properties.endDate, properties.precision) : undefined
+    const time = end
+      ? `<TimeSpan><begin>${begin}</begin><end>${end}</end></TimeSpan>`
+      : `<TimeStamp><when>${begin}</when></TimeStamp>`
+    const data = Object.entries(getEventFields(feature))
+      .filter(([, value]) => value !== '')
+      .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(value)}</value></Data>`)
+      .join('')
+
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(properties.label)}</name>`,
+      properties.description ? `      <description>${escapeXml(properties.description)}</description>` : '',
+      `      ${time}`,
+      `      <ExtendedData>${data}</ExtendedData>`,
+      `      <Point><coordinates>${geometry.coordinates[0]},${geometry.coordinates[1]}</coordinates></Point>`,
+      '    </Placemark>',
+    ].filter(Boolean).join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>Historical events</name>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * GPX 1.1 waypoints. GPX times must be full timestamps in years 1-9999, so
+ * only day-precise dates get a <time>; the exact fields are kept in extensions.
+ */
+function toGpx(features: EventFeature[]): string {
+  const waypoints = features.map((feature) => {
+    const { properties, geometry } = feature
+    const [lng, lat] = geometry.coordinates
+    const year = parseInt(properties.date, 10)
+    const time = (properties.precision ?? 'day') === 'day' && year >= 1 && year <= 9999
+      ? `<time>${properties.date}T00:00:00Z</time>`
+      : ''
+    const category = getPrimaryCategory(properties.categories)
+    const extensions = Object.entries(getEventFields(feature))
+      .filter(([name, value]) => value !== '' && name !== 'latitude' && name !== 'longitude')
+      .map(([name, value]) => `<ph:${name}>${escapeXml(value)}</ph:${name}>`)
+      .join('')
+
+    return [
+      `  <wpt lat="${lat}" lon="${lng}">`,
+      time ? `    ${time}` : '',
+      `    <name>${escapeXml(properties.label)}</name>`,
+      properties.description ? `    <desc>${escapeXml(properties.description)}</desc>` : '',
+      properties.wikipediaUrl ? `    <link href="${escapeXml(properties.wikipediaUrl)}"><text>Wikipedia</text></link>` : '',
+      `    <type>${escapeXml(EVENT_CATEGORIES[category].label)}</type>`,
+      `    <extensions>${extensions}</extensions>`,
+      '  </wpt>',
+    ].filter(Boolean).join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Places History" xmlns="http://www.topografix.com/GPX/1/1" xmlns:ph="urn:places-history:event">',
+    `  <metadata><name>Historical events</name><time>${new Date().toISOString()}</time></metadata>`,
+    ...waypoints,
+    '</gpx>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Serialize events in an export format, named after today's date
+ */
+export function exportEvents(features: EventFeature[], format: ExportFormat): EventExport {
+  const filename = `historical-events-${new Date().toISOString().slice(0, 10)}.${format}`
+
+  switch (format) {
+    case 'csv':
+      return { body: toCsv(features), contentType: 'text/csv; charset=utf-8', filename }
+    case 'kml':
+      return { body: toKml(features), contentType: 'application/vnd.google-earth.kml+xml; charset=utf-8', filename }
+    case 'gpx':
+      return { body: toGpx(features), contentType: 'application/gpx+xml; charset=utf-8', filename }
+    case 'geojson':
+      return {
+        body: JSON.stringify({ type: 'FeatureCollection', features }, null, 2),
+        contentType: 'application/geo+json; charset=utf-8',
+        filename
+      }
+  }
+}
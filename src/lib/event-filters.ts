@@ -0,0 +1,177 @@
+/**
+ * Server-side sorting and filtering of event features for /api/events
+ */
+
+import { EventFeature, EventCategoryKey } from '@/types/events'
+import { EVENT_CATEGORY_KEYS } from '@/lib/categories'
+import { MonthDay, isOnMonthDay, parseEventDate, parseMonthDay } from '@/lib/dates'
+
+export const EVENT_SORT_FIELDS = ['distance', 'date', 'relevance', 'route'] as const
+export type EventSortField = typeof EVENT_SORT_FIELDS[number]
+export type SortOrder = 'asc' | 'desc'
+
+export interface EventFilterOptions {
+  sort: EventSortField
+  order: SortOrder
+  // Filters on the Commons image (P18); Wikipedia page images are only looked up for returned pages
+  hasImage?: boolean
+  hasWikipedia?: boolean
+  q?: string
+  // Keep events in any of these categories
+  categories?: EventCategoryKey[]
+  // Keep day-precise events that happened on this day of the year, in any year
+  onDay?: MonthDay
+}
+
+// Longest accepted label text filter
+const MAX_QUERY_LENGTH = 200
+
+// Relevance sorts best matches first unless told otherwise
+const DEFAULT_ORDER: Record<EventSortField, SortOrder> = {
+  distance: 'asc',
+  date: 'asc',
+  relevance: 'desc',
+  route: 'asc'
+}
+
+/**
+ * Parse an optional boolean query parameter ("true"/"false"/"1"/"0")
+ */
+function parseBooleanParam(value: string | null): boolean | undefined | null {
+  if (value === null || value === '') return undefined
+  if (value === 'true' || value === '1') return true
+  if (value === 'false' || value === '0') return false
+  return null
+}
+
+/**
+ * Read sort and filter options from the request, returning an error message for invalid values
+ */
+export function parseEventFilterOptions(
+  searchParams: URLSearchParams,
+  defaultSort: EventSortField = 'distance'
+): { options: EventFilterOptions } | { error: string } {
+  const sort = searchParams.get('sort') || defaultSort
+  if (!(EVENT_SORT_FIELDS as readonly string[]).includes(sort)) {
+    return { error: `Invalid sort. Use one of: ${EVENT_SORT_FIELDS.join(', ')}.` }
+  }
+
+  const order = searchParams.get('order') || DEFAULT_ORDER[sort as EventSortField]
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'Invalid order. Use asc or desc.' }
+  }
+
+  const hasImage = parseBooleanParam(searchParams.get('hasImage'))
+  const hasWikipedia = parseBooleanParam(searchParams.get('hasWikipedia'))
+  if (hasImage === null || hasWikipedia === null) {
+    return { error: 'Invalid filter. hasImage and hasWikipedia must be true or false.' }
+  }
+
+  const q = searchParams.get('q')?.trim() || undefined
+  if (q && q.length > MAX_QUERY_LENGTH) {
+    return { error: `Search text too long. Maximum allowed is ${MAX_QUERY_LENGTH} characters.` }
+  }
+
+  const categoryParam = searchParams.get('category')
+  const categories = categoryParam ? categoryParam.split(',').map((category) => category.trim()) : undefined
+  const unknownCategory = categories?.find((category) => !(EVENT_CATEGORY_KEYS as string[]).includes(category))
+  if (unknownCategory !== undefined) {
+    return { error: `Invalid category "${unknownCategory}". Use one or more of: ${EVENT_CATEGORY_KEYS.join(', ')}.` }
+  }
+
+  const onDayParam = searchParams.get('onDay')
+  const onDay = onDayParam ? parseMonthDay(onDayParam) : undefined
+  if (onDay === null) {
+    return { error: 'Invalid onDay. Use a day of the year as MM-DD, e.g. 07-04.' }
+  }
+
+  return {
+    options: {
+      sort: sort as EventSortField,
+      order,
+      hasImage,
+      hasWikipedia,
+      q,
+      categories: categories as EventCategoryKey[] | undefined,
+      onDay
+    }
+  }
+}
+
+/**
+ * Turn a YYYY-MM-DD date into a sortable number, or null if the date is unknown
+ */
+function getSortableDate(date: string): number | null {
+  const parts = parseEventDate(date)
+  if (!parts) return null
+  return parts.year * 10000 + parts.month * 100 + parts.day
+}
+
+/**
+ * Score how well an event matches the text filter and how much content it has
+ */
+function getRelevance(feature: EventFeature, q?: string): number {
+  const { label, description, wikipediaUrl, imageUrl } = feature.properties
+  let score = 0
+
+  if (q) {
+    const needle = q.toLowerCase()
+    const haystack = label.toLowerCase()
+    if (haystack === needle) score += 100
+    else if (haystack.startsWith(needle)) score += 50
+    else if (haystack.includes(needle)) score += 25
+    if (description?.toLowerCase().includes(needle)) score += 10
+  }
+
+  if (wikipediaUrl) score += 5
+  if (imageUrl) score += 3
+  if (description) score += 2
+  return score
+}
+
+function compareFeatures(a: EventFeature, b: EventFeature, options: EventFilterOptions): number {
+  const direction = options.order === 'asc' ? 1 : -1
+
+  switch (options.sort) {
+    case 'date': {
+      const dateA = getSortableDate(a.properties.date)
+      const dateB = getSortableDate(b.properties.date)
+      // Unknown dates always go last
+      if (dateA === null || dateB === null) {
+        return dateA === dateB ? 0 : dateA === null ? 1 : -1
+      }
+      return (dateA - dateB) * direction
+    }
+    case 'relevance':
+      return (getRelevance(a, options.q) - getRelevance(b, options.q)) * direction
+    case 'route':
+      // Only corridor searches set routePosition; elsewhere this falls back to the distance tie-breaker
+      return ((a.properties.routePosition ?? 0) - (b.properties.routePosition ?? 0)) * direction
+    case 'distance':
+    default:
+      return ((a.properties.distance ?? 0) - (b.properties.distance ?? 0)) * direction
+  }
+}
+
+/**
+ * Filter and sort features. Ties are broken by distance and then by id so
+ * that the order, and therefore pagination, is deterministic.
+ */
+export function applyEventFilters(features: EventFeature[], options: EventFilterOptions): EventFeature[] {
+  const needle = options.q?.toLowerCase()
+
+  const filtered = features.filter(({ properties }) => {
+    if (options.hasImage !== undefined && Boolean(properties.imageUrl) !== options.hasImage) return false
+    if (options.hasWikipedia !== undefined && Boolean(properties.wikipediaUrl) !== options.hasWikipedia) return false
+    if (needle && !properties.label.toLowerCase().includes(needle)) return false
+    if (options.categories && !properties.categories?.some(({ category }) => options.categories!.includes(category))) return false
+    if (options.onDay && !isOnMonthDay(properties, options.onDay)) return false
+    return true
+  })
+
+  return filtered.sort((a, b) =>
+    compareFeatures(a, b, options) ||
+    (a.properties.distance ?? 0) - (b.properties.distance ?? 0) ||
+    a.properties.id.localeCompare(b.properties.id)
+  )
+}
@@ -0,0 +1,360 @@
+/**
+ * Event images for /api/events responses
+ *
+ * Wikidata's P18 values are Special:FilePath links to full-size Commons
+ * originals, which can be many megabytes. Before features are returned, their
+ * files are resolved to thumbnails with the Commons imageinfo API, and events
+ * without a usable P18 file fall back to the page image of their Wikipedia
+ * article, the thumbnail its page summary shows. Every image comes with the
+ * author and license from its file description, which we must show with it.
+ * Lookups take up to 50 titles per request, and results are kept in memory
+ * across requests.
+ */
+
+import { EventFeature, ImageAttribution } from '@/types/events'
+import { IMAGE_CONFIG, SPARQL_CONFIG } from '@/lib/config'
+import { getCommonsFileName, getOptimizedImageUrl } from '@/lib/image-utils'
+
+/**
+ * A page from an action API query with formatversion=2
+ */
+interface ApiPage {
+  title: string
+  missing?: boolean
+  invalid?: boolean
+  imageinfo?: ImageInfo[] // prop=imageinfo
+  thumbnail?: { source: string } // prop=pageimages
+  pageimage?: string // prop=pageimages, file name without "File:"
+}
+
+/**
+ * imageinfo of a file with iiprop=url|extmetadata
+ */
+interface ImageInfo {
+  thumburl?: string
+  url?: string
+  descriptionurl?: string
+  extmetadata?: Partial<Record<typeof EXTMETADATA_FIELDS[number], { value: string }>>
+}
+
+interface ApiQueryResponse {
+  query?: {
+    normalized?: { from: string; to: string }[]
+    redirects?: { from: string; to: string }[]
+    pages?: ApiPage[]
+  }
+  error?: { code: string; info: string }
+}
+
+// File description fields read for attribution
+const EXTMETADATA_FIELDS = ['Artist', 'LicenseShortName', 'LicenseUrl', 'License', 'Copyrighted', 'NonFree'] as const
+
+// License codes (extmetadata "License") and short names counted as free, e.g.
+// "cc-by-sa-4.0", "CC BY 2.0", "cc0", "pd" or "Public domain"; not CC NC or ND
+const FREE_LICENSE_PATTERN = /^(cc0|cc-by(-sa)?(-\d|$)|pd|public-domain|gfdl|fal|attribution|gpl|lgpl|bsd|mit|apache)/
+
+interface ResolvedImage {
+  url: string
+  attribution: ImageAttribution
+}
+
+/**
+ * Image of a Commons file or Wikipedia article: the image, null if it has none,
+ * or undefined if the lookup failed
+ */
+type ImageLookup = ResolvedImage | null | undefined
+
+// Insertion-ordered map used as a small LRU, keyed by "File:" title or Wikipedia article URL
+const imageCache = new Map<string, { image: ImageLookup; expiresAt: number }>()
+
+function getCachedImage(key: string): { image: ImageLookup } | undefined {
+  const entry = imageCache.get(key)
+  if (!entry || entry.expiresAt <= Date.now()) {
+    return undefined
+  }
+  // Move to the end, as the most recently used entry
+  imageCache.delete(key)
+  imageCache.set(key, entry)
+  return entry
+}
+
+function cacheImage(key: string, image: ImageLookup): void {
+  const ttl = image === undefined ? IMAGE_CONFIG.FAILURE_TTL_MS : IMAGE_CONFIG.CACHE_TTL_MS
+  imageCache.delete(key)
+  imageCache.set(key, { image, expiresAt: Date.now() + ttl })
+  if (imageCache.size > IMAGE_CONFIG.CACHE_SIZE) {
+    const oldest = imageCache.keys().next().value
+    if (oldest !== undefined) {
+      imageCache.delete(oldest)
+    }
+  }
+}
+
+/**
+ * Look up pages by title in batches, keyed by the requested title.
+ * Titles are followed through normalization and redirects; missing pages are left out.
+ */
+async function queryPages(endpoint: string, titles: string[], params: Record<string, string>): Promise<Map<string, ApiPage>> {
+  const batches: string[][] = []
+  for (let i = 0; i < titles.length; i += IMAGE_CONFIG.MAX_TITLES_PER_REQUEST) {
+    batches.push(titles.slice(i, i + IMAGE_CONFIG.MAX_TITLES_PER_REQUEST))
+  }
+
+  const pages = new Map<string, ApiPage>()
+  await Promise.all(batches.map(async (batch) => {
+    const url = `${endpoint}?${new URLSearchParams({
+      ...params,
+      action: 'query',
+      titles: batch.join('|'),
+      format: 'json',
+      formatversion: '2'
+    })}`
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': SPARQL_CONFIG.USER_AGENT,
+        'Accept': 'application/json'
+      },
+      signal: AbortSignal.timeout(IMAGE_CONFIG.TIMEOUT_MS)
+    })
+    if (!response.ok) {
+      throw new Error(`Image lookup failed: ${response.status} ${response.statusText}`)
+    }
+
+    const data: ApiQueryResponse = await response.json()
+    if (data.error) {
+      throw new Error(`Image lookup error: ${data.error.code} - ${data.error.info}`)
+    }
+
+    const { normalized = [], redirects = [], pages: batchPages = [] } = data.query ?? {}
+    const renamed = new Map([...normalized, ...redirects].map(({ from, to }) => [from, to]))
+    const byTitle = new Map(batchPages.map((page) => [page.title, page]))
+    for (const title of batch) {
+      // At most a normalization followed by a redirect
+      let target = title
+      for (let step = 0; step < 2 && renamed.has(target); step++) {
+        target = renamed.get(target)!
+      }
+      const page = byTitle.get(target)
+      if (page && !page.missing && !page.invalid) {
+        pages.set(title, page)
+      }
+    }
+  }))
+  return pages
+}
+
+/**
+ * Images for the keys, from the cache or fetched together with `fetchImages`.
+ * If the fetch fails, its keys are cached as failed for a short while.
+ */
+async function getImages(
+  keys: string[],
+  fetchImages: (keys: string[]) => Promise<Map<string, ResolvedImage | null>>
+): Promise<Map<string, ImageLookup>> {
+  const images = new Map<string, ImageLookup>()
+  const uncached: string[] = []
+  for (const key of new Set(keys)) {
+    const cached = getCachedImage(key)
+    if (cached) {
+      images.set(key, cached.image)
+    } else {
+      uncached.push(key)
+    }
+  }
+  if (uncached.length === 0) {
+    return images
+  }
+
+  let fetched: Map<string, ResolvedImage | null> | null = null
+  try {
+    fetched = await fetchImages(uncached)
+  } catch (error) {
+    console.warn(`Image lookup for ${uncached.length} titles failed:`, error)
+  }
+  for (const key of uncached) {
+    const image = fetched ? fetched.get(key) ?? null : undefined
+    cacheImage(key, image)
+    images.set(key, image)
+  }
+  return images
+}
+
+const COMMONS_ORIGIN = new URL(IMAGE_CONFIG.COMMONS_API).origin
+
+/**
+ * Description page of a file on a wiki, from its "File:" title
+ */
+function getFilePageUrl(origin: string, fileTitle: string): string {
+  return `${origin}/wiki/File:${encodeURIComponent(fileTitle.replace(/^File:/, '').replace(/ /g, '_'))}`
+}
+
+/**
+ * Plain text of an HTML metadata value, such as a linked author name
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#?39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Credit for a file from its imageinfo. Non-free files (NonFree, which local
+ * Wikipedia files can be) and files without a recognized license are flagged.
+ */
+function getAttribution(info: ImageInfo, fileTitle: string, apiEndpoint: string): ImageAttribution {
+  const metadata = info.extmetadata ?? {}
+  const author = metadata.Artist ? htmlToText(metadata.Artist.value) : ''
+  const license = metadata.LicenseShortName ? htmlToText(metadata.LicenseShortName.value) : ''
+  const licenseCode = (metadata.License?.value || license).toLowerCase().replace(/\s+/g, '-')
+
+  return {
+    author: author || undefined,
+    license: license || undefined,
+    licenseUrl: metadata.LicenseUrl?.value || undefined,
+    filePageUrl: info.descriptionurl ?? getFilePageUrl(new URL(apiEndpoint).origin, fileTitle),
+    freeLicense: metadata.NonFree?.value !== 'true'
+      && (metadata.Copyrighted?.value === 'False' || FREE_LICENSE_PATTERN.test(licenseCode))
+  }
+}
+
+/**
+ * Thumbnails and credits of files, keyed by "File:" title, fitted to the thumbnail box
+ */
+async function fetchFileImages(apiEndpoint: string, titles: string[]): Promise<Map<string, ResolvedImage | null>> {
+  const pages = await queryPages(apiEndpoint, titles, {
+    prop: 'imageinfo',
+    iiprop: 'url|extmetadata',
+    iiextmetadatafilter: EXTMETADATA_FIELDS.join('|'),
+    iiurlwidth: String(IMAGE_CONFIG.THUMBNAIL_WIDTH),
+    iiurlheight: String(IMAGE_CONFIG.THUMBNAIL_HEIGHT)
+  })
+  return new Map(titles.map((title) => {
+    const info = pages.get(title)?.imageinfo?.[0]
+    const url = info?.thumburl ?? info?.url
+    return [title, info && url ? { url, attribution: getAttribution(info, title, apiEndpoint) } : null]
+  }))
+}
+
+/**
+ * Language edition and title of a Wikipedia article URL, or null for other URLs
+ */
+function parseWikipediaUrl(articleUrl: string): { origin: string; title: string } | null {
+  try {
+    const { origin, hostname, pathname } = new URL(articleUrl)
+    const title = pathname.split('/wiki/')[1]
+    if (!hostname.endsWith('.wikipedia.org') || !title) {
+      return null
+    }
+    return { origin, title: decodeURIComponent(title).replace(/_/g, ' ') }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Page images of Wikipedia articles, keyed by article URL, one batch per language edition.
+ * Files are looked up on the same wiki, which also sees the files shared from Commons.
+ */
+async function fetchWikipediaImages(articleUrls: string[]): Promise<Map<string, ResolvedImage | null>> {
+  const byOrigin = new Map<string, { articleUrl: string; title: string }[]>()
+  for (const articleUrl of articleUrls) {
+    const article = parseWikipediaUrl(articleUrl)
+    if (article) {
+      byOrigin.set(article.origin, [...byOrigin.get(article.origin) ?? [], { articleUrl, title: article.title }])
+    }
+  }
+
+  const images = new Map<string, ResolvedImage | null>()
+  await Promise.all(Array.from(byOrigin, async ([origin, articles]) => {
+    const apiEndpoint = `${origin}/w/api.php`
+    const pages = await queryPages(apiEndpoint, articles.map(({ title }) => title), {
+      prop: 'pageimages',
+      piprop: 'name',
+      redirects: '1'
+    })
+
+    const fileTitles = new Map<string, string>()
+    for (const { articleUrl, title } of articles) {
+      const fileName = pages.get(title)?.pageimage
+      if (fileName) {
+        fileTitles.set(articleUrl, `File:${fileName.replace(/_/g, ' ')}`)
+      }
+    }
+    const files = fileTitles.size > 0
+      ? await fetchFileImages(apiEndpoint, Array.from(new Set(fileTitles.values())))
+      : new Map<string, ResolvedImage | null>()
+
+    for (const { articleUrl } of articles) {
+      const fileTitle = fileTitles.get(articleUrl)
+      images.set(articleUrl, fileTitle ? files.get(fileTitle) ?? null : null)
+    }
+  }))
+  return images
+}
+
+/**
+ * Replace the P18 image of each feature with a thumbnail and its credit, falling
+ * back to the Wikipedia page image for features without one. If Commons cannot
+ * be reached, P18 files are linked through Special:FilePath at thumbnail width
+ * instead, credited only by their file page and flagged as of unknown license.
+ */
+export async function resolveEventImages(features: EventFeature[]): Promise<EventFeature[]> {
+  if (!IMAGE_CONFIG.ENABLED || features.length === 0) {
+    return features
+  }
+
+  const fileTitles = new Map<string, string>()
+  for (const { properties } of features) {
+    const fileName = properties.imageUrl ? getCommonsFileName(properties.imageUrl) : null
+    if (fileName) {
+      fileTitles.set(properties.id, `File:${fileName}`)
+    }
+  }
+  const commonsImages = await getImages(
+    Array.from(fileTitles.values()),
+    (titles) => fetchFileImages(IMAGE_CONFIG.COMMONS_API, titles)
+  )
+
+  // Articles of events whose file is missing, or that have no P18 image at all
+  const hasNoImage = ({ properties }: EventFeature) => {
+    const title = fileTitles.get(properties.id)
+    return title ? commonsImages.get(title) === null : !properties.imageUrl
+  }
+  const articleUrls = features
+    .filter((feature) => hasNoImage(feature) && feature.properties.wikipediaUrl && parseWikipediaUrl(feature.properties.wikipediaUrl))
+    .map((feature) => feature.properties.wikipediaUrl!)
+  const wikipediaImages = articleUrls.length > 0
+    ? await getImages(articleUrls, fetchWikipediaImages)
+    : new Map<string, ImageLookup>()
+
+  let resolved = 0
+  const result = features.map((feature): EventFeature => {
+    const { id, imageUrl, wikipediaUrl } = feature.properties
+    const title = fileTitles.get(id)
+    const image = (title ? commonsImages.get(title) : undefined)
+      || (hasNoImage(feature) && wikipediaUrl ? wikipediaImages.get(wikipediaUrl) : undefined)
+
+    if (image) {
+      resolved++
+      return { ...feature, properties: { ...feature.properties, imageUrl: image.url, imageAttribution: image.attribution } }
+    }
+    if (imageUrl && !hasNoImage(feature)) {
+      // Commons could not be reached: the license is unknown, but the file page has it
+      resolved++
+      const imageAttribution = title ? { filePageUrl: getFilePageUrl(COMMONS_ORIGIN, title), freeLicense: false } : undefined
+      return { ...feature, properties: { ...feature.properties, imageUrl: getOptimizedImageUrl(imageUrl, IMAGE_CONFIG.THUMBNAIL_WIDTH), imageAttribution } }
+    }
+    return { ...feature, properties: { ...feature.properties, imageUrl: undefined } }
+  })
+
+  console.log(`Event images: ${resolved} of ${features.length} events have an image (${imageCache.size} cached lookups)`)
+  return result
+}
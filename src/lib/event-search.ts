@@ -0,0 +1,361 @@
+/**
+ * Event search shared by the /api/events route handlers
+ *
+ * Route handlers parse and validate the search area, with parseAreaParams
+ * for the GET-style lat/lng/r and bbox parameters; everything else about
+ * a search (time range, pagination, filters, language, querying the event
+ * source, GeoJSON conversion) is handled here so that all search variants
+ * behave the same.
+ */
+
+import { NextResponse } from 'next/server'
+import { EventsResponse, WikidataItem, EventFeature, CoordinatesResponse, CoordinatesFeature } from '@/types/events'
+import { CORRIDOR_CONFIG, DATE_RANGE_CONFIG, DEFAULT_RADIUS_KM, GEOGRAPHIC_CONFIG, PAGINATION_CONFIG } from '@/lib/config'
+import { BoundingBox, calculateDistance, getBoundingBoxCenter, getBoundingBoxRadius, parseBoundingBox } from '@/lib/geo'
+import { AreaPolygon, Position, isPointInPolygon } from '@/lib/geometry'
+import { getRouteChunks, locateOnRoute } from '@/lib/corridor'
+import { decodeCursor, paginate } from '@/lib/pagination'
+import { EventFilterOptions, EventSortField, applyEventFilters, parseEventFilterOptions } from '@/lib/event-filters'
+import { categorizeInstances } from '@/lib/categories'
+import { parseLanguageParam } from '@/lib/languages'
+import { toAstronomicalYear } from '@/lib/dates'
+import { getEventSource, EventQuery, EventSource } from '@/lib/event-sources'
+import { Tile, getCoveringTiles, queryEventsWithTileCache, queryTiles } from '@/lib/tile-cache'
+import { resolveEventImages } from '@/lib/event-images'
+import { exportEvents, parseExportFormat } from '@/lib/event-export'
+import { ValidationError, problemResponse } from '@/lib/errors'
+
+/**
+ * Strip event features down to coordinates only
+ */
+function toCoordinatesFeatures(features: EventFeature[]): CoordinatesFeature[] {
+  return features.map((feature) => ({
+    type: 'Feature' as const,
+    geometry: feature.geometry,
+    properties: {
+      // Only return coordinates, no other properties
+      coordinates: feature.geometry.coordinates
+    }
+  }))
+}
+
+/**
+ * Convert Wikidata items to full GeoJSON features with all properties
+ * Uses the distance computed by the event source when it provides one
+ */
+export function convertToFullGeoJSON(items: WikidataItem[], centerLat: number, centerLng: number, radius: number): EventsResponse {
+  const features = items.map((item) => {
+    const lat = parseFloat(item.lat.value)
+    const lng = parseFloat(item.lng.value)
+    
+    // Debug coordinate parsing
+    if (isNaN(lat) || isNaN(lng)) {
+      console.log('Invalid coordinates for item:', item.itemLabel.value, 'lat:', item.lat.value, 'lng:', item.lng.value)
+      return null
+    }
+    
+    const sourceDistance = item.distance ? parseFloat(item.distance.value) : NaN
+    const distance = isNaN(sourceDistance) ? calculateDistance(centerLat, centerLng, lat, lng) : sourceDistance
+    
+    // Apply strict distance filtering in the final conversion step
+    if (distance > radius) {
+      return null
+    }
+
+    return {
+      type: 'Feature' as const,
+      geometry: {
+        type: 'Point' as const,
+        coordinates: [lng, lat] as [number, number]
+      },
+      properties: {
+        id: item.item.value,
+        label: item.itemLabel.value,
+        description: item.itemDescription?.value,
+        date: item.date.value,
+        startDate: item.startDate?.value ?? item.date.value,
+        endDate: item.endDate?.value,
+        precision: item.datePrecision?.value ?? 'day',
+        distance,
+        wikipediaUrl: item.wikipediaUrl?.value,
+        imageUrl: item.imageUrl?.value, // Commons file; see resolveEventImages
+        categories: categorizeInstances(item.instances)
+      }
+    }
+  }).filter((feature) => feature !== null) as EventFeature[]
+
+  console.log(`convertToFullGeoJSON: ${features.length} of ${items.length} items within ${radius}km radius`)
+  return {
+    type: 'FeatureCollection',
+    features
+  }
+}
+
+/**
+ * Convert items found without a search center, such as name search results, to features without a distance
+ */
+export function itemsToFeatures(items: WikidataItem[]): EventFeature[] {
+  return convertToFullGeoJSON(items, 0, 0, Infinity).features.map((feature) => ({
+    ...feature,
+    properties: { ...feature.properties, distance: undefined }
+  }))
+}
+
+/**
+ * Area an events request searches: the circle around lat/lng, optionally
+ * narrowed to a bounding box and then to a polygon, or a corridor of
+ * `bufferKm` on either side of a route
+ */
+export type SearchArea =
+  | {
+      lat: number
+      lng: number
+      radius: number
+      bbox?: BoundingBox
+      polygon?: AreaPolygon
+    }
+  | {
+      route: Position[]
+      bufferKm: number
+    }
+
+type TimeAndLanguage = Pick<EventQuery, 'startYear' | 'endYear' | 'languages'>
+
+/**
+ * Query the event source for a circle, box or polygon and convert the results to features
+ */
+async function findAreaFeatures(
+  source: EventSource,
+  { lat, lng, radius, bbox, polygon }: Extract<SearchArea, { lat: number }>,
+  query: TimeAndLanguage
+): Promise<EventFeature[]> {
+  const items = await queryEventsWithTileCache(source, { lat, lng, radius, bbox, ...query })
+
+  console.log(`Raw ${source.name} items:`, items.length, 'items found')
+
+  const { features } = convertToFullGeoJSON(items, lat, lng, radius)
+  return polygon
+    ? features.filter(({ geometry }) => isPointInPolygon(polygon, geometry.coordinates[1], geometry.coordinates[0]))
+    : features
+}
+
+/**
+ * Query the tiles covering every chunk of a route and keep the events within the buffer.
+ * `distance` becomes the distance from the route, and `routePosition` the km along it.
+ */
+async function findCorridorFeatures(
+  source: EventSource,
+  { route, bufferKm }: Extract<SearchArea, { route: Position[] }>,
+  query: TimeAndLanguage
+): Promise<EventFeature[]> {
+  const chunks = getRouteChunks(route, bufferKm)
+
+  // Chunks overlap by their buffers and neighbouring chunks share tiles, so each tile is queried once for the whole route
+  const tiles = new Map<string, Tile>()
+  for (const tile of chunks.flatMap((bbox) => getCoveringTiles(bbox))) {
+    tiles.set(tile.key, tile)
+  }
+  console.log(`Corridor search: ${route.length} vertices in ${chunks.length} chunks and ${tiles.size} tiles, ${bufferKm}km buffer`)
+
+  const items = await queryTiles(source, Array.from(tiles.values()), query, CORRIDOR_CONFIG.MAX_SOURCE_QUERIES)
+
+  const features = new Map<string, EventFeature>()
+  for (const feature of itemsToFeatures(items)) {
+    const [lng, lat] = feature.geometry.coordinates
+    const { distance, position } = locateOnRoute(route, lat, lng)
+    if (distance <= bufferKm) {
+      features.set(feature.properties.id, {
+        ...feature,
+        properties: { ...feature.properties, distance, routePosition: position }
+      })
+    }
+  }
+
+  console.log(`Corridor search: ${features.size} events within ${bufferKm}km of the route`)
+  return Array.from(features.values())
+}
+
+/**
+ * Time range, filters and languages of a search, validated
+ */
+export interface SearchQuery {
+  startYear: number // historical numbering, negative years are BC
+  endYear: number
+  filterOptions: EventFilterOptions
+  languages: string[]
+}
+
+/**
+ * Parse the point or viewport area of a GET request: `bbox`, or `lat`, `lng` and `r`
+ */
+export function parseAreaParams(searchParams: URLSearchParams): { area: Extract<SearchArea, { lat: number }> } | { error: string } {
+  // Viewport mode: a bbox replaces lat/lng/r, and distances are measured from its center
+  const bboxResult = searchParams.has('bbox') ? parseBoundingBox(searchParams.get('bbox') || '') : null
+  if (bboxResult && 'error' in bboxResult) {
+    return { error: bboxResult.error }
+  }
+  const bbox = bboxResult?.bbox
+  const bboxCenter = bbox ? getBoundingBoxCenter(bbox) : null
+
+  const lat = bboxCenter ? bboxCenter.lat : parseFloat(searchParams.get('lat') || '0')
+  const lng = bboxCenter ? bboxCenter.lng : parseFloat(searchParams.get('lng') || '0')
+  const radius = bbox ? getBoundingBoxRadius(bbox) : parseFloat(searchParams.get('r') || DEFAULT_RADIUS_KM.toString())
+
+  // Validate parameters
+  if (isNaN(lat) || isNaN(lng) || isNaN(radius)) {
+    return { error: 'Invalid parameters. lat, lng, and r must be valid numbers.' }
+  }
+
+  if (bbox && radius > GEOGRAPHIC_CONFIG.MAX_RADIUS_KM) {
+    return { error: `Bounding box too large. Its corners must be within ${GEOGRAPHIC_CONFIG.MAX_RADIUS_KM}km of its center.` }
+  }
+
+  // Validate radius range - too small won't find events, too large returns irrelevant results
+  if (!bbox && radius < 1) {
+    return { error: 'Radius too small. Minimum allowed is 1km.' }
+  }
+
+  if (!bbox && radius > 500) {
+    return { error: 'Radius too large. Maximum allowed is 500km (311 miles).' }
+  }
+
+  return { area: { lat, lng, radius, bbox } }
+}
+
+/**
+ * Validate the time range, sort and filter, and language parameters
+ */
+export function parseSearchQuery(
+  searchParams: URLSearchParams,
+  defaultSort: EventSortField
+): { query: SearchQuery } | { error: string } {
+  // Temporal filtering parameters - negative years are BC, so -44 is 44 BC
+  const startYear = parseInt(searchParams.get('startYear') || DATE_RANGE_CONFIG.DEFAULT_START_YEAR.toString())
+  const endYear = parseInt(searchParams.get('endYear') || new Date().getFullYear().toString())
+
+  // Validate year parameters
+  if (isNaN(startYear) || isNaN(endYear)) {
+    return { error: 'Invalid year parameters. startYear and endYear must be valid numbers.' }
+  }
+
+  if (startYear === 0 || endYear === 0) {
+    return { error: 'There is no year 0. Use -1 for 1 BC or 1 for AD 1.' }
+  }
+
+  if (startYear > endYear) {
+    return { error: 'startYear must be less than or equal to endYear.' }
+  }
+
+  if (endYear > new Date().getFullYear()) {
+    return { error: 'endYear cannot be in the future.' }
+  }
+
+  // Validate sort and filter parameters
+  const filterResult = parseEventFilterOptions(searchParams, defaultSort)
+  if ('error' in filterResult) {
+    return { error: filterResult.error }
+  }
+
+  // Validate the language fallback chain
+  const languageResult = parseLanguageParam(searchParams.get('lang'))
+  if ('error' in languageResult) {
+    return { error: languageResult.error }
+  }
+
+  return { query: { startYear, endYear, filterOptions: filterResult.options, languages: languageResult.languages } }
+}
+
+/**
+ * Query the configured event source for the area, then filter and sort the features
+ */
+export async function findEvents(area: SearchArea, { startYear, endYear, filterOptions, languages }: SearchQuery): Promise<EventFeature[]> {
+  // Log the search parameters for debugging
+  const areaDescription = 'route' in area
+    ? { routeVertices: area.route.length, bufferKm: area.bufferKm }
+    : { lat: area.lat, lng: area.lng, radius: area.radius, bbox: area.bbox, polygon: Boolean(area.polygon) }
+  console.log('Event search parameters:', { ...areaDescription, startYear, endYear, languages, ...filterOptions })
+
+  // Query the configured event source with caching and convert to GeoJSON
+  const source = getEventSource()
+  const query = { startYear: toAstronomicalYear(startYear), endYear: toAstronomicalYear(endYear), languages }
+  const features = 'route' in area
+    ? await findCorridorFeatures(source, area, query)
+    : await findAreaFeatures(source, area, query)
+
+  return applyEventFilters(features, filterOptions)
+}
+
+/**
+ * Validate the time, pagination, filter and language parameters, then query,
+ * filter and paginate events in the area, or export all of them with `format`.
+ * Shared by GET and POST.
+ */
+export async function searchEvents(searchParams: URLSearchParams, area: SearchArea): Promise<NextResponse> {
+  const coordinatesOnly = searchParams.get('coordinates') === 'true'
+  
+  // Pagination parameters - the cursor comes from the `next` field of a previous response
+  const limit = Number(searchParams.get('limit') || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE)
+  const cursor = searchParams.get('cursor')
+  const offset = cursor ? decodeCursor(cursor) : 0
+
+  // Corridor results follow the route unless asked otherwise
+  const queryResult = parseSearchQuery(searchParams, 'route' in area ? 'route' : 'distance')
+  if ('error' in queryResult) {
+    return problemResponse(new ValidationError(queryResult.error))
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > PAGINATION_CONFIG.MAX_PAGE_SIZE) {
+    return problemResponse(new ValidationError(`Invalid limit. limit must be an integer between 1 and ${PAGINATION_CONFIG.MAX_PAGE_SIZE}.`))
+  }
+  
+  if (offset === null) {
+    return problemResponse(new ValidationError('Invalid cursor. Use the next value from a previous response.'))
+  }
+
+  // Exports are downloads of every matching event, without pagination
+  const formatResult = parseExportFormat(searchParams.get('format'))
+  if ('error' in formatResult) {
+    return problemResponse(new ValidationError(formatResult.error))
+  }
+
+  console.log('API request parameters:', { coordinatesOnly, limit, offset })
+  const features = await findEvents(area, queryResult.query)
+
+  if (formatResult.format) {
+    const { body, contentType, filename } = exportEvents(features, formatResult.format)
+    console.log(`Exporting ${features.length} features as ${formatResult.format}`)
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+  }
+
+  // Cut out the requested page of the sorted and filtered features
+  const page = paginate(features, limit, offset)
+  console.log(`Returning ${page.items.length} of ${page.total} features, next cursor:`, page.next)
+  
+  // Return coordinates only or all properties based on coordinatesOnly parameter
+  let geoJSON: EventsResponse | CoordinatesResponse
+  if (coordinatesOnly) {
+    console.log('Returning coordinates-only response...')
+    geoJSON = {
+      type: 'FeatureCollection',
+      features: toCoordinatesFeatures(page.items),
+      next: page.next,
+      total: page.total
+    }
+  } else {
+    console.log('Returning full response with all properties...')
+    geoJSON = {
+      type: 'FeatureCollection',
+      // Only the returned page needs images, so they are resolved after paginating
+      features: await resolveEventImages(page.items),
+      next: page.next,
+      total: page.total
+    }
+  }
+
+  return NextResponse.json(geoJSON)
+}
@@ -0,0 +1,172 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { EventDetail, EventDetailDate, EventFeature, EventsResponse, WikidataItem } from '@/types/events'
+import { calculateDistance, isInBoundingBox } from '@/lib/geo'
+import { pickLanguage } from '@/lib/languages'
+import { parseEventDate } from '@/lib/dates'
+import { categorizeInstances } from '@/lib/categories'
+import { EventQuery, EventQueryResult, EventSource, RelatedItem } from './types'
+
+/**
+ * Fixture features may carry translations keyed by language code,
+ * falling back to the plain label/description/wikipediaUrl, and
+ * aliases that name searches match in addition to the labels
+ */
+type FixtureFeature = EventFeature & {
+  properties: {
+    labels?: Record<string, string>
+    descriptions?: Record<string, string>
+    wikipediaUrls?: Record<string, string>
+    aliases?: string[]
+  }
+}
+
+/**
+ * Normalize a fixture feature into a WikidataItem in the requested languages
+ */
+function toItem({ properties, geometry }: FixtureFeature, languages: string[], distance?: number): WikidataItem {
+  const [lng, lat] = geometry.coordinates
+  const description = pickLanguage(properties.descriptions, languages) ?? properties.description
+  const wikipediaUrl = pickLanguage(properties.wikipediaUrls, languages) ?? properties.wikipediaUrl
+
+  return {
+    item: { value: properties.id },
+    itemLabel: { value: pickLanguage(properties.labels, languages) ?? properties.label },
+    itemDescription: description ? { value: description } : undefined,
+    date: { value: properties.date },
+    startDate: properties.startDate ? { value: properties.startDate } : undefined,
+    endDate: properties.endDate ? { value: properties.endDate } : undefined,
+    datePrecision: properties.precision ? { value: properties.precision } : undefined,
+    lat: { value: lat.toString() },
+    lng: { value: lng.toString() },
+    distance: distance !== undefined ? { value: distance.toString() } : undefined,
+    wikipediaUrl: wikipediaUrl ? { value: wikipediaUrl } : undefined,
+    imageUrl: properties.imageUrl ? { value: properties.imageUrl } : undefined,
+    // Categories are recomputed from the class ids so taxonomy changes apply to fixtures too
+    instances: properties.categories?.map(({ id, label }) => ({ id, label }))
+  }
+}
+
+/**
+ * How well a name matches the search text: 3 for an exact match, 2 for a prefix, 1 for a substring, 0 otherwise
+ */
+function getNameMatch(name: string, needle: string): number {
+  const haystack = name.toLowerCase()
+  if (haystack === needle) return 3
+  if (haystack.startsWith(needle)) return 2
+  return haystack.includes(needle) ? 1 : 0
+}
+
+/**
+ * Date statements implied by a fixture event: a point in time, or a start and end for periods
+ */
+function getFixtureDates({ date, startDate, endDate, precision = 'day' }: EventFeature['properties']): EventDetailDate[] {
+  if (!endDate) {
+    return [{ property: 'P585', date, precision }]
+  }
+  return [
+    { property: 'P580', date: startDate ?? date, precision },
+    { property: 'P582', date: endDate, precision }
+  ]
+}
+
+/**
+ * Event source backed by a local GeoJSON file.
+ *
+ * The file uses the same FeatureCollection shape that `/api/events` returns,
+ * which makes it easy to save a real response and replay it offline.
+ * The file is re-read on every query; note that area searches are cached in
+ * the tile cache store (`.cache/event-tiles` or Supabase), so edits show up
+ * once the cached tiles expire or are removed with `DELETE /api/cache`.
+ * Event details are limited to what the features carry, and fixtures have
+ * no graph relations, so related events are only the nearby ones.
+ */
+export function createFixtureEventSource(fixturePath: string): EventSource {
+  const resolvedPath = path.isAbsolute(fixturePath) ? fixturePath : path.join(process.cwd(), fixturePath)
+
+  const readFeatures = async (): Promise<FixtureFeature[]> => {
+    const fixture: EventsResponse = JSON.parse(await readFile(resolvedPath, 'utf-8'))
+    return fixture.features as FixtureFeature[]
+  }
+
+  return {
+    name: `fixture:${fixturePath}`,
+
+    async queryEvents({ lat, lng, radius, bbox, startYear, endYear, languages }: EventQuery): Promise<EventQueryResult> {
+      const items: WikidataItem[] = []
+      for (const feature of await readFeatures()) {
+        const [itemLng, itemLat] = feature.geometry.coordinates
+        const distance = calculateDistance(lat, lng, itemLat, itemLng)
+        const year = parseEventDate(feature.properties.date)?.year
+
+        const inArea = bbox ? isInBoundingBox(bbox, itemLat, itemLng) : distance <= radius
+
+        if (!inArea || year === undefined || year < startYear || year > endYear) {
+          continue
+        }
+
+        items.push(toItem(feature, languages, distance))
+      }
+
+      console.log(`Fixture source: ${items.length} items within ${radius}km radius`)
+      // The whole file is searched, so nothing is ever left out
+      return { items, truncated: false }
+    },
+
+    async getEvent(qid: string, languages: string[]): Promise<EventDetail | null> {
+      const feature = (await readFeatures()).find(({ properties }) => properties.id.endsWith(`/${qid}`))
+      if (!feature) {
+        return null
+      }
+
+      const { properties } = feature
+      const wikipediaUrl = pickLanguage(properties.wikipediaUrls, languages) ?? properties.wikipediaUrl
+      const wikipediaUrls = new Set([properties.wikipediaUrl, ...Object.values(properties.wikipediaUrls ?? {})].filter(Boolean) as string[])
+
+      return {
+        id: properties.id,
+        qid,
+        label: pickLanguage(properties.labels, languages) ?? properties.label,
+        description: pickLanguage(properties.descriptions, languages) ?? properties.description,
+        dates: getFixtureDates(properties),
+        participants: [],
+        locations: [],
+        partOf: [],
+        follows: [],
+        followedBy: [],
+        images: properties.imageUrl ? [properties.imageUrl] : [],
+        coordinates: [feature.geometry.coordinates],
+        categories: categorizeInstances(properties.categories),
+        wikipediaUrl,
+        // Articles become sitelinks, e.g. https://de.wikipedia.org/wiki/Brandenburger_Tor is "dewiki"
+        sitelinks: Array.from(wikipediaUrls, (url) => {
+          const { hostname, pathname } = new URL(url)
+          return {
+            site: `${hostname.split('.')[0].replace(/-/g, '_')}wiki`,
+            title: decodeURIComponent(pathname.replace('/wiki/', '')).replace(/_/g, ' '),
+            url
+          }
+        })
+      }
+    },
+
+    async getRelatedEvents(): Promise<RelatedItem[]> {
+      return []
+    },
+
+    async searchByName(text: string, languages: string[], limit: number): Promise<WikidataItem[]> {
+      const needle = text.toLowerCase()
+      const matches = (await readFeatures())
+        .map((feature) => {
+          const { label, labels, aliases } = feature.properties
+          const names = [label, ...Object.values(labels ?? {}), ...(aliases ?? [])]
+          return { feature, match: Math.max(...names.map((name) => getNameMatch(name, needle))) }
+        })
+        .filter(({ match }) => match > 0)
+        .sort((a, b) => b.match - a.match || a.feature.properties.label.localeCompare(b.feature.properties.label))
+
+      console.log(`Fixture source: ${matches.length} items matching "${text}"`)
+      return matches.slice(0, limit).map(({ feature }) => toItem(feature, languages))
+    }
+  }
+}
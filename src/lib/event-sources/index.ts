@@ -0,0 +1,21 @@
+import { EVENT_SOURCE_CONFIG } from '@/lib/config'
+import { EventSource } from './types'
+import { createWikidataEventSource } from './wikidata'
+import { createFixtureEventSource } from './fixture'
+
+export type { EventQuery, EventQueryResult, EventSource, RelatedItem } from './types'
+
+/**
+ * Get the event source selected by the EVENT_SOURCE environment variable.
+ * Defaults to Wikidata; set EVENT_SOURCE=fixture to run fully offline.
+ */
+export function getEventSource(): EventSource {
+  switch (EVENT_SOURCE_CONFIG.PROVIDER) {
+    case 'fixture':
+      return createFixtureEventSource(EVENT_SOURCE_CONFIG.FIXTURE_PATH)
+    case 'wikidata':
+      return createWikidataEventSource()
+    default:
+      throw new Error(`Unknown event source "${EVENT_SOURCE_CONFIG.PROVIDER}". Use "wikidata" or "fixture".`)
+  }
+}
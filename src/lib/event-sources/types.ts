@@ -0,0 +1,57 @@
+import { EventDetail, EventRelation, WikidataItem } from '@/types/events'
+import { BoundingBox } from '@/lib/geo'
+
+/**
+ * Area and time range an event source is asked to search
+ *
+ * The area is the circle around lat/lng, unless `bbox` is set: then only
+ * items inside the box are returned, lat/lng is the box center that
+ * distances are measured from, and radius covers the whole box.
+ */
+export interface EventQuery {
+  lat: number
+  lng: number
+  radius: number // kilometers
+  bbox?: BoundingBox
+  // Inclusive year range in astronomical numbering (0 is 1 BC), matching SPARQL YEAR()
+  startYear: number
+  endYear: number
+  // Language fallback chain for labels, descriptions and Wikipedia links, e.g. ["de", "en"]
+  languages: string[]
+}
+
+/**
+ * Items found for an EventQuery. `truncated` means the source hit its row
+ * limit, so some events in the area are missing from `items`.
+ */
+export interface EventQueryResult {
+  items: WikidataItem[]
+  truncated: boolean
+}
+
+/**
+ * An event linked to another event in the knowledge graph, see EventRelation
+ */
+export interface RelatedItem {
+  relation: Exclude<EventRelation, 'nearby'>
+  item: WikidataItem
+}
+
+/**
+ * A provider of historical events.
+ *
+ * Implementations return items already normalized into the `WikidataItem`
+ * shape, restricted to the requested radius and with `distance` filled in,
+ * so the API route can convert them to GeoJSON without knowing the source.
+ */
+export interface EventSource {
+  // Short identifier, also used as part of cache keys
+  name: string
+  queryEvents(query: EventQuery): Promise<EventQueryResult>
+  // Full details of one event by Q-id, or null if there is no such event
+  getEvent(qid: string, languages: string[]): Promise<EventDetail | null>
+  // Events with coordinates linked to an event through part-of, conflict, participant or succession statements
+  getRelatedEvents(qid: string, languages: string[]): Promise<RelatedItem[]>
+  // Dated events with coordinates whose label or alias matches the text, best matches first
+  searchByName(text: string, languages: string[], limit: number): Promise<WikidataItem[]>
+}
@@ -0,0 +1,102 @@
+import { EntityReference, EventDetail, EventDetailDate } from '@/types/events'
+import { categorizeInstances } from '@/lib/categories'
+import { getDatePrecision, parseWikidataTime } from '@/lib/dates'
+import { getEntities, pickTerm, WikibaseEntity } from '@/lib/wikidata-api'
+
+const DATE_PROPERTIES: EventDetailDate['property'][] = ['P585', 'P580', 'P582', 'P571', 'P569']
+
+// Properties whose values are items shown by their label
+const REFERENCE_PROPERTIES = {
+  participants: 'P710',
+  locations: 'P276',
+  partOf: 'P361',
+  follows: 'P155',
+  followedBy: 'P156',
+  instances: 'P31',
+} as const
+
+/**
+ * Values of the non-deprecated statements for a property
+ */
+function getValues(entity: WikibaseEntity, property: string): unknown[] {
+  return (entity.claims?.[property] ?? [])
+    .filter((statement) => statement.rank !== 'deprecated' && statement.mainsnak.snaktype === 'value')
+    .map((statement) => statement.mainsnak.datavalue?.value)
+    .filter((value) => value !== undefined)
+}
+
+function getItemIds(entity: WikibaseEntity, property: string): string[] {
+  return getValues(entity, property)
+    .map((value) => (value as { id?: string }).id)
+    .filter((id): id is string => typeof id === 'string')
+}
+
+function getDates(entity: WikibaseEntity): EventDetailDate[] {
+  return DATE_PROPERTIES.flatMap((property) =>
+    getValues(entity, property).flatMap((value) => {
+      const { time, precision } = value as { time?: string; precision?: number }
+      const date = parseWikidataTime(time)
+      return date ? [{ property, date, precision: getDatePrecision(precision ?? NaN) }] : []
+    })
+  )
+}
+
+function getCoordinates(entity: WikibaseEntity): [number, number][] {
+  return getValues(entity, 'P625').flatMap((value) => {
+    const { latitude, longitude } = value as { latitude?: number; longitude?: number }
+    return typeof latitude === 'number' && typeof longitude === 'number' ? [[longitude, latitude] as [number, number]] : []
+  })
+}
+
+/**
+ * Commons file names (P18) as Special:FilePath URLs, the same form SPARQL returns
+ */
+function getImages(entity: WikibaseEntity): string[] {
+  return getValues(entity, 'P18')
+    .filter((value): value is string => typeof value === 'string')
+    .map((fileName) => `http://commons.wikimedia.org/wiki/Special:FilePath/${encodeURIComponent(fileName.replace(/ /g, '_'))}`)
+}
+
+/**
+ * Read an event entity from the Wikibase API, including the labels of the items it references.
+ * Returns null if the entity does not exist.
+ */
+export async function getWikidataEvent(qid: string, languages: string[]): Promise<EventDetail | null> {
+  const entity = (await getEntities([qid], ['labels', 'descriptions', 'claims', 'sitelinks/urls'], languages)).get(qid)
+  if (!entity) {
+    return null
+  }
+
+  // One more request for the labels of every referenced item
+  const referencedIds = Object.values(REFERENCE_PROPERTIES).flatMap((property) => getItemIds(entity, property))
+  const referenced = referencedIds.length > 0 ? await getEntities(referencedIds, ['labels'], languages) : new Map()
+  const getReferences = (property: string): EntityReference[] =>
+    getItemIds(entity, property).map((id) => ({ id, label: pickTerm(referenced.get(id)?.labels, languages) }))
+
+  const sitelinks = Object.values(entity.sitelinks ?? {})
+    .filter((sitelink) => sitelink.url)
+    .map(({ site, title, url }) => ({ site, title, url: url! }))
+  // Wikipedia site ids use underscores, e.g. "zh_yuewiki"
+  const wikipediaUrl = languages
+    .map((language) => entity.sitelinks?.[`${language.replace(/-/g, '_')}wiki`]?.url)
+    .find(Boolean)
+
+  return {
+    // Redirected ids resolve to their target entity
+    id: `http://www.wikidata.org/entity/${entity.id}`,
+    qid: entity.id,
+    label: pickTerm(entity.labels, languages) ?? entity.id,
+    description: pickTerm(entity.descriptions, languages),
+    dates: getDates(entity),
+    participants: getReferences(REFERENCE_PROPERTIES.participants),
+    locations: getReferences(REFERENCE_PROPERTIES.locations),
+    partOf: getReferences(REFERENCE_PROPERTIES.partOf),
+    follows: getReferences(REFERENCE_PROPERTIES.follows),
+    followedBy: getReferences(REFERENCE_PROPERTIES.followedBy),
+    images: getImages(entity),
+    coordinates: getCoordinates(entity),
+    categories: categorizeInstances(getReferences(REFERENCE_PROPERTIES.instances)),
+    wikipediaUrl,
+    sitelinks
+  }
+}
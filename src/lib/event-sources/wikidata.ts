@@ -0,0 +1,587 @@
+import { WikidataItem } from '@/types/events'
+import { EVENT_SOURCE_CONFIG, RELATED_CONFIG } from '@/lib/config'
+import { getWikipediaSite } from '@/lib/languages'
+import { getDatePrecision, parseWikidataTime } from '@/lib/dates'
+import {
+  runSparqlQuery,
+  SparqlBinding,
+  SparqlError,
+  SparqlTimeoutError,
+  SparqlRateLimitError,
+  SparqlCircuitOpenError
+} from '@/lib/sparql-client'
+import { ApiError, InternalError, UpstreamError, UpstreamRateLimitError, UpstreamTimeoutError } from '@/lib/errors'
+import { EventQuery, EventQueryResult, EventSource, RelatedItem } from './types'
+import { getWikidataEvent } from './wikidata-detail'
+
+/**
+ * GEOGRAPHIC FILTERING WITH THE WIKIDATA GEOSPATIAL SERVICE:
+ *
+ * All queries select candidates through `SERVICE wikibase:around`, which
+ * looks items up in the coordinate index instead of parsing every P625
+ * literal with regexes and filtering by a padded bounding box. The service
+ * only returns items inside the requested circle and binds the great-circle
+ * distance from the center (in km) to `?distance`, so results need no
+ * client-side Haversine pass. This keeps large-radius searches, up to the
+ * 500 km limit, within Wikidata's query time budget.
+ *
+ * Viewport searches use `SERVICE wikibase:box` instead. It does not bind
+ * `?distance`; the API route computes distances from the box center.
+ */
+
+/**
+ * Build the geospatial service block that binds `subject` (?item by default) and ?location
+ * for every item with coordinates in the search area, plus ?distance for circle searches
+ */
+function buildAreaService({ lat, lng, radius, bbox }: EventQuery, subject = '?item'): string {
+  if (bbox) {
+    return `
+      SERVICE wikibase:box {
+        ${subject} wdt:P625 ?location .
+        bd:serviceParam wikibase:cornerSouthWest "Point(${bbox.minLng} ${bbox.minLat})"^^geo:wktLiteral .
+        bd:serviceParam wikibase:cornerNorthEast "Point(${bbox.maxLng} ${bbox.maxLat})"^^geo:wktLiteral .
+      }`
+  }
+
+  return `
+      SERVICE wikibase:around {
+        ${subject} wdt:P625 ?location .
+        bd:serviceParam wikibase:center "Point(${lng} ${lat})"^^geo:wktLiteral .
+        bd:serviceParam wikibase:radius "${radius}" .
+        bd:serviceParam wikibase:distance ?distance .
+      }`
+}
+
+/**
+ * Bind ?name to the `predicate` value of `subject` in the first language of the chain that has one.
+ * Explicit OPTIONAL/COALESCE patterns are used instead of the label service so the
+ * result can take part in GROUP BY.
+ */
+function buildLanguageFallback(subject: string, predicate: string, name: string, languages: string[]): string {
+  const patterns = languages.map((language, index) =>
+    `OPTIONAL { ${subject} ${predicate} ?${name}_${index} . FILTER(LANG(?${name}_${index}) = "${language}") }`
+  )
+  const candidates = languages.map((_, index) => `?${name}_${index}`).join(', ')
+  return `${patterns.join('\n      ')}\n      BIND(COALESCE(${candidates}) AS ?${name})`
+}
+
+/**
+ * Bind ?wikipediaUrl to the article in the first language of the chain that has one
+ */
+function buildWikipediaFallback(languages: string[]): string {
+  const patterns = languages.map((language, index) =>
+    `OPTIONAL { ?wikipediaUrl_${index} schema:about ?item ; schema:isPartOf <${getWikipediaSite(language)}> . }`
+  )
+  const candidates = languages.map((_, index) => `?wikipediaUrl_${index}`).join(', ')
+  return `${patterns.join('\n      ')}\n      BIND(COALESCE(${candidates}) AS ?wikipediaUrl)`
+}
+
+/**
+ * Pattern binding ?instanceEntry to "Q-id=label" for every "instance of" (P31) class.
+ * Queries aggregate the entries with GROUP_CONCAT into ?instances, see parseInstances.
+ */
+function buildInstancesPattern(languages: string[]): string {
+  return `
+      OPTIONAL {
+        ?item wdt:P31 ?instance .
+        ${buildLanguageFallback('?instance', 'rdfs:label', 'instanceLabel', languages)}
+        BIND(CONCAT(STRAFTER(STR(?instance), "entity/"), "=", COALESCE(?instanceLabel, "")) AS ?instanceEntry)
+      }`
+}
+
+/**
+ * Bind ?name and ?namePrecision to the time value and wikibase:timePrecision of a
+ * non-deprecated `property` statement. Truthy wdt: values carry no precision, so
+ * dates go through the full statement.
+ */
+function buildTimeValuePattern(property: string, name: string): string {
+  return `OPTIONAL {
+        ?item p:${property} ?${name}Statement .
+        ?${name}Statement psv:${property} ?${name}Value ; wikibase:rank ?${name}Rank .
+        ?${name}Value wikibase:timeValue ?${name} ; wikibase:timePrecision ?${name}Precision .
+        FILTER(?${name}Rank != wikibase:DeprecatedRank)
+      }`
+}
+
+/**
+ * Bind ?eventDate to the first bound time value among `names`, and ?dateEntry to
+ * "time/precision" for that value. Queries return ?dateEntry as ?date, see bindingToItem.
+ */
+function buildEventDate(names: string[]): string {
+  const values = names.map((name) => `?${name}`).join(', ')
+  const precisions = names.map((name) => `?${name}Precision`).join(', ')
+  return `BIND(COALESCE(${values}) AS ?eventDate)
+      BIND(CONCAT(STR(?eventDate), "/", STR(COALESCE(${precisions}))) AS ?dateEntry)`
+}
+
+const INSTANCES_SELECT = '(GROUP_CONCAT(DISTINCT ?instanceEntry; separator="|") AS ?instances)'
+
+/**
+ * Parse the aggregated ?instances value, e.g. "Q178561=battle|Q188055=siege"
+ */
+function parseInstances(value?: string): { id: string; label?: string }[] {
+  if (!value) return []
+  return value.split('|').filter(Boolean).map((entry) => {
+    const separator = entry.indexOf('=')
+    return { id: entry.slice(0, separator), label: entry.slice(separator + 1) || undefined }
+  })
+}
+
+/**
+ * Extract coordinates from a WKT literal such as "Point(-74.0445 40.6892)"
+ */
+function parsePoint(location: string): { lat: string; lng: string } | null {
+  const match = location.match(/Point\(([^ ]+) ([^)]+)\)/)
+  return match ? { lng: match[1], lat: match[2] } : null
+}
+
+/**
+ * Normalize one SPARQL result row into a WikidataItem
+ */
+function bindingToItem(binding: SparqlBinding): WikidataItem | null {
+  const coordinates = binding.location?.value ? parsePoint(binding.location.value) : null
+  if (!coordinates) {
+    console.log('Skipping item with invalid coordinates:', binding.itemLabel?.value, binding.location?.value)
+    return null
+  }
+
+  // Filter sitelinks to only include Wikipedia articles
+  let wikipediaUrl = undefined
+  if (binding.wikipediaUrl?.value && binding.wikipediaUrl.value.includes('.wikipedia.org/')) {
+    wikipediaUrl = { value: binding.wikipediaUrl.value }
+  }
+
+  // ?date is "time/precision" (see buildEventDate) or a bare time value
+  const [time, precision] = (binding.date?.value ?? '').split('/')
+  const startDate = parseWikidataTime(binding.startDate?.value)
+  const endDate = parseWikidataTime(binding.endDate?.value)
+
+  return {
+    item: { value: binding.item?.value || '' },
+    itemLabel: { value: binding.itemLabel?.value || 'Unknown' },
+    itemDescription: binding.itemDescription ? { value: binding.itemDescription.value } : undefined,
+    date: { value: parseWikidataTime(time) ?? 'Unknown date' },
+    startDate: startDate ? { value: startDate } : undefined,
+    endDate: endDate ? { value: endDate } : undefined,
+    datePrecision: { value: getDatePrecision(parseInt(precision)) },
+    lat: { value: coordinates.lat },
+    lng: { value: coordinates.lng },
+    distance: binding.distance ? { value: binding.distance.value } : undefined,
+    wikipediaUrl,
+    imageUrl: binding.imageUrl ? { value: binding.imageUrl.value } : undefined,
+    instances: parseInstances(binding.instances?.value)
+  }
+}
+
+/**
+ * Convert result rows to items, keeping the first row for each item.
+ * Items with several coordinates (or, in ungrouped queries, several dates
+ * or sitelinks) come back as several rows.
+ */
+function bindingsToItems(bindings: SparqlBinding[]): WikidataItem[] {
+  const items = new Map<string, WikidataItem>()
+  for (const binding of bindings) {
+    const item = bindingToItem(binding)
+    if (item && !items.has(item.item.value)) {
+      items.set(item.item.value, item)
+    }
+  }
+  return Array.from(items.values())
+}
+
+/**
+ * Whether a query hit the row limit, meaning some events were not returned
+ */
+function isTruncated(bindings: SparqlBinding[]): boolean {
+  if (bindings.length < EVENT_SOURCE_CONFIG.MAX_RESULTS) {
+    return false
+  }
+  console.warn(`Wikidata query returned the maximum of ${EVENT_SOURCE_CONFIG.MAX_RESULTS} rows - results are truncated`)
+  return true
+}
+
+/**
+ * Turn a failed SPARQL query into the API error it surfaces as: timeouts,
+ * rate limits and outages say so, anything else (such as a query Wikidata
+ * rejects) is our fault and becomes an internal error with `message`
+ */
+function toApiError(error: unknown, message: string): ApiError {
+  if (error instanceof SparqlTimeoutError) {
+    return new UpstreamTimeoutError('Wikidata query timed out - please try again')
+  }
+  if (error instanceof SparqlRateLimitError) {
+    return new UpstreamRateLimitError('Too many requests to Wikidata - please wait before trying again', error.retryAfterMs)
+  }
+  // Network errors and malformed responses have no status
+  if (error instanceof SparqlCircuitOpenError || (error instanceof SparqlError && (error.status === undefined || error.status >= 500))) {
+    return new UpstreamError('Wikidata is experiencing issues - please try again later', error.retryAfterMs)
+  }
+  return new InternalError(message)
+}
+
+/**
+ * Query Wikidata for historical events near a location
+ * Uses the geospatial service for geographic filtering and SPARQL filters for temporal filtering
+ */
+export async function queryWikidata(query: EventQuery): Promise<EventQueryResult> {
+  const { lat, lng, radius, bbox, startYear, endYear, languages } = query
+  const sparqlQuery = `
+    SELECT ?item ?itemLabel ?itemDescription ?location ?distance ?wikipediaUrl
+      (SAMPLE(?dateEntry) AS ?date) (SAMPLE(?startTime) AS ?startDate) (SAMPLE(?endTime) AS ?endDate) (SAMPLE(?image) AS ?imageUrl) ${INSTANCES_SELECT} WHERE {
+      ${buildAreaService(query)}
+
+      # Get date (any date property) with its precision, keeping the start and end of periods
+      ${buildTimeValuePattern('P585', 'pointInTime')}
+      ${buildTimeValuePattern('P580', 'startTime')}
+      ${buildTimeValuePattern('P571', 'inception')}
+      ${buildTimeValuePattern('P582', 'endTime')}
+      ${buildEventDate(['pointInTime', 'startTime', 'inception', 'endTime'])}
+
+      # Temporal filtering - only include events within specified year range
+      FILTER(BOUND(?eventDate))
+      FILTER(YEAR(?eventDate) >= ${startYear})
+      FILTER(YEAR(?eventDate) <= ${endYear})
+
+      # Get label and description in the first available language, requiring a label
+      ${buildLanguageFallback('?item', 'rdfs:label', 'itemLabel', languages)}
+      FILTER(BOUND(?itemLabel))
+      ${buildLanguageFallback('?item', 'schema:description', 'itemDescription', languages)}
+
+      # Get Wikipedia article URL in the first available language
+      ${buildWikipediaFallback(languages)}
+
+      # Get a Commons image (P18), resolved to a thumbnail before responding
+      OPTIONAL { ?item wdt:P18 ?image }
+
+      # Get "instance of" classes for categorization
+      ${buildInstancesPattern(languages)}
+    }
+    GROUP BY ?item ?itemLabel ?itemDescription ?location ?distance ?wikipediaUrl
+    LIMIT ${EVENT_SOURCE_CONFIG.MAX_RESULTS}
+  `
+
+  console.log('Query parameters:', { lat, lng, radius, bbox, startYear, endYear, languages })
+
+  try {
+    const { data, stale } = await runSparqlQuery(sparqlQuery)
+    console.log('Wikidata query response:', data.results.bindings.length, 'bindings', stale ? '(stale)' : '')
+
+    const truncated = isTruncated(data.results.bindings)
+    const items = bindingsToItems(data.results.bindings)
+
+    console.log(`Found ${items.length} items within ${radius}km radius`)
+    return { items, truncated }
+
+  } catch (error) {
+    console.error('Wikidata query error:', error)
+    throw toApiError(error, 'Failed to query historical events from Wikidata')
+  }
+}
+
+/**
+ * Query Wikidata for the births of people (Q5) whose place of birth (P19) is near a location,
+ * dated by their date of birth (P569) and placed at the coordinates of the birthplace.
+ * Only the MAX_BIRTHS people with the most sitelinks are returned, so the result is never
+ * reported as truncated: splitting the area would not thin out a city's births.
+ */
+export async function queryWikidataBirths(query: EventQuery): Promise<EventQueryResult> {
+  const { radius, startYear, endYear, languages } = query
+  const sparqlQuery = `
+    SELECT ?item ?itemLabel ?itemDescription ?location ?distance ?wikipediaUrl
+      (SAMPLE(?dateEntry) AS ?date) (SAMPLE(?image) AS ?imageUrl) ${INSTANCES_SELECT} WHERE {
+      {
+        # The most notable people born in the area, by their number of sitelinks
+        SELECT DISTINCT ?item ?location ?distance ?sitelinks WHERE {
+          ${buildAreaService(query, '?birthPlace')}
+          ?item wdt:P19 ?birthPlace ;
+            wdt:P31 wd:Q5 ;
+            wdt:P569 ?birthDay ;
+            wikibase:sitelinks ?sitelinks .
+          FILTER(YEAR(?birthDay) >= ${startYear} && YEAR(?birthDay) <= ${endYear})
+        }
+        ORDER BY DESC(?sitelinks)
+        LIMIT ${EVENT_SOURCE_CONFIG.MAX_BIRTHS}
+      }
+
+      # Get the date of birth with its precision
+      ${buildTimeValuePattern('P569', 'birthDate')}
+      ${buildEventDate(['birthDate'])}
+      FILTER(BOUND(?eventDate))
+
+      # Get label and description in the first available language, requiring a label
+      ${buildLanguageFallback('?item', 'rdfs:label', 'itemLabel', languages)}
+      FILTER(BOUND(?itemLabel))
+      ${buildLanguageFallback('?item', 'schema:description', 'itemDescription', languages)}
+
+      # Get Wikipedia article URL in the first available language
+      ${buildWikipediaFallback(languages)}
+
+      # Get a Commons image (P18), resolved to a thumbnail before responding
+      OPTIONAL { ?item wdt:P18 ?image }
+
+      # Get "instance of" classes for categorization, which include human (Q5)
+      ${buildInstancesPattern(languages)}
+    }
+    GROUP BY ?item ?itemLabel ?itemDescription ?location ?distance ?wikipediaUrl
+  `
+
+  try {
+    const { data, stale } = await runSparqlQuery(sparqlQuery)
+    console.log('Births query response:', data.results.bindings.length, 'bindings', stale ? '(stale)' : '')
+
+    const items = bindingsToItems(data.results.bindings)
+    console.log(`Births query: Found ${items.length} people born within ${radius}km radius`)
+    return { items, truncated: false }
+  } catch (error) {
+    console.error('Births query error:', error)
+    throw toApiError(error, 'Failed to query births from Wikidata')
+  }
+}
+
+/**
+ * Fallback query to get any historical events if the main query finds none
+ */
+export async function queryWikidataFallback(query: EventQuery): Promise<EventQueryResult> {
+  const { radius, startYear, endYear, languages } = query
+  const fallbackQuery = `
+    SELECT ?item ?itemLabel ?location ?distance ?wikipediaUrl (SAMPLE(?dateEntry) AS ?date) (SAMPLE(?image) AS ?imageUrl) ${INSTANCES_SELECT} WHERE {
+      ${buildAreaService(query)}
+      ${buildTimeValuePattern('P585', 'pointInTime')}
+      ${buildEventDate(['pointInTime'])}
+
+      # Temporal filtering - only include events within specified year range
+      FILTER(BOUND(?eventDate))
+      FILTER(YEAR(?eventDate) >= ${startYear})
+      FILTER(YEAR(?eventDate) <= ${endYear})
+
+      # Get label in the first available language
+      ${buildLanguageFallback('?item', 'rdfs:label', 'itemLabel', languages)}
+      FILTER(BOUND(?itemLabel))
+
+      # Get Wikipedia article URL in the first available language
+      ${buildWikipediaFallback(languages)}
+
+      # Get a Commons image (P18), resolved to a thumbnail before responding
+      OPTIONAL { ?item wdt:P18 ?image }
+
+      # Get "instance of" classes for categorization
+      ${buildInstancesPattern(languages)}
+    }
+    GROUP BY ?item ?itemLabel ?location ?distance ?wikipediaUrl
+    LIMIT ${EVENT_SOURCE_CONFIG.MAX_RESULTS}
+  `
+
+  try {
+    const { data } = await runSparqlQuery(fallbackQuery)
+    console.log('Fallback query response:', data.results.bindings.length, 'bindings')
+
+    const truncated = isTruncated(data.results.bindings)
+    const items = bindingsToItems(data.results.bindings)
+
+    console.log(`Fallback query: Found ${items.length} items within ${radius}km radius`)
+    return { items, truncated }
+
+  } catch (error) {
+    console.error('Fallback query error:', error)
+    throw toApiError(error, 'Failed to query historical events from Wikidata')
+  }
+}
+
+/**
+ * Graph patterns binding ?item for each kind of relation to `event`. Each runs as a
+ * subquery with its own limit, so an event with a very common participant cannot
+ * crowd out the other relations or time out the query.
+ */
+function buildRelationPatterns(event: string): Record<RelatedItem['relation'], string> {
+  return {
+    'part-of': `${event} wdt:P361 ?item .`,
+    'has-part': `{ ${event} wdt:P527 ?item . } UNION { ?item wdt:P361 ${event} . }`,
+    'sibling': `${event} wdt:P361 ?parent . ?item wdt:P361 ?parent .`,
+    'same-conflict': `${event} wdt:P607 ?conflict . ?item wdt:P607 ?conflict .`,
+    'same-participant': `${event} wdt:P710 ?participant . ?item wdt:P710 ?participant .`,
+    'previous': `${event} wdt:P155 ?item .`,
+    'next': `${event} wdt:P156 ?item .`,
+  }
+}
+
+/**
+ * Query Wikidata for events with coordinates that are linked to an event.
+ * Items linked in several ways come back once per relation.
+ */
+export async function queryRelatedEvents(qid: string, languages: string[]): Promise<RelatedItem[]> {
+  const event = `wd:${qid}`
+  const relations = Object.entries(buildRelationPatterns(event)).map(([relation, pattern]) => `{
+        SELECT DISTINCT ?item ?relation WHERE {
+          ${pattern}
+          ?item wdt:P625 [] .
+          FILTER(?item != ${event})
+          BIND("${relation}" AS ?relation)
+        }
+        LIMIT ${RELATED_CONFIG.MAX_PER_RELATION}
+      }`)
+
+  const sparqlQuery = `
+    SELECT ?item ?relation ?itemLabel ?itemDescription ?location ?wikipediaUrl
+      (SAMPLE(?dateEntry) AS ?date) (SAMPLE(?startTime) AS ?startDate) (SAMPLE(?endTime) AS ?endDate) (SAMPLE(?image) AS ?imageUrl) ${INSTANCES_SELECT} WHERE {
+      ${relations.join(' UNION ')}
+      ?item wdt:P625 ?location .
+
+      # Get date (any date property) with its precision; related events may be undated
+      ${buildTimeValuePattern('P585', 'pointInTime')}
+      ${buildTimeValuePattern('P580', 'startTime')}
+      ${buildTimeValuePattern('P571', 'inception')}
+      ${buildTimeValuePattern('P582', 'endTime')}
+      ${buildEventDate(['pointInTime', 'startTime', 'inception', 'endTime'])}
+
+      # Get label and description in the first available language, requiring a label
+      ${buildLanguageFallback('?item', 'rdfs:label', 'itemLabel', languages)}
+      FILTER(BOUND(?itemLabel))
+      ${buildLanguageFallback('?item', 'schema:description', 'itemDescription', languages)}
+
+      # Get Wikipedia article URL in the first available language
+      ${buildWikipediaFallback(languages)}
+
+      # Get a Commons image (P18), resolved to a thumbnail before responding
+      OPTIONAL { ?item wdt:P18 ?image }
+
+      # Get "instance of" classes for categorization
+      ${buildInstancesPattern(languages)}
+    }
+    GROUP BY ?item ?relation ?itemLabel ?itemDescription ?location ?wikipediaUrl
+  `
+
+  try {
+    const { data, stale } = await runSparqlQuery(sparqlQuery)
+    console.log('Related events query response:', data.results.bindings.length, 'bindings', stale ? '(stale)' : '')
+
+    // Keep one row per item and relation; items with several coordinates come back more than once
+    const related = new Map<string, RelatedItem>()
+    for (const binding of data.results.bindings) {
+      const item = bindingToItem(binding)
+      const relation = binding.relation?.value as RelatedItem['relation'] | undefined
+      const key = `${item?.item.value}|${relation}`
+      if (item && relation && !related.has(key)) {
+        related.set(key, { relation, item })
+      }
+    }
+    return Array.from(related.values())
+  } catch (error) {
+    console.error('Related events query error:', error)
+    throw toApiError(error, 'Failed to query related events from Wikidata')
+  }
+}
+
+/**
+ * Quote user input as a SPARQL string literal
+ */
+function toSparqlString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+  return `"${escaped}"`
+}
+
+/**
+ * Find dated events with coordinates by label or alias through Wikidata's entity search,
+ * which the query service exposes as the EntitySearch MWAPI service. Results keep the
+ * entity search ranking.
+ */
+export async function searchWikidataByName(text: string, languages: string[], limit: number): Promise<WikidataItem[]> {
+  const sparqlQuery = `
+    SELECT ?item ?itemLabel ?itemDescription ?location ?wikipediaUrl (MIN(?ordinal) AS ?rank)
+      (SAMPLE(?dateEntry) AS ?date) (SAMPLE(?startTime) AS ?startDate) (SAMPLE(?endTime) AS ?endDate) (SAMPLE(?image) AS ?imageUrl) ${INSTANCES_SELECT} WHERE {
+      SERVICE wikibase:mwapi {
+        bd:serviceParam wikibase:endpoint "www.wikidata.org" ;
+                        wikibase:api "EntitySearch" ;
+                        mwapi:search ${toSparqlString(text)} ;
+                        mwapi:language "${languages[0]}" ;
+                        wikibase:limit ${Math.min(limit * 5, 250)} .
+        ?item wikibase:apiOutputItem mwapi:item .
+        ?ordinal wikibase:apiOrdinal true .
+      }
+
+      # Only places on the map: require coordinates
+      ?item wdt:P625 ?location .
+
+      # Get date (any date property) with its precision, requiring one like area searches do
+      ${buildTimeValuePattern('P585', 'pointInTime')}
+      ${buildTimeValuePattern('P580', 'startTime')}
+      ${buildTimeValuePattern('P571', 'inception')}
+      ${buildTimeValuePattern('P582', 'endTime')}
+      ${buildEventDate(['pointInTime', 'startTime', 'inception', 'endTime'])}
+      FILTER(BOUND(?eventDate))
+
+      # Get label and description in the first available language, requiring a label
+      ${buildLanguageFallback('?item', 'rdfs:label', 'itemLabel', languages)}
+      FILTER(BOUND(?itemLabel))
+      ${buildLanguageFallback('?item', 'schema:description', 'itemDescription', languages)}
+
+      # Get Wikipedia article URL in the first available language
+      ${buildWikipediaFallback(languages)}
+
+      # Get a Commons image (P18), resolved to a thumbnail before responding
+      OPTIONAL { ?item wdt:P18 ?image }
+
+      # Get "instance of" classes for categorization
+      ${buildInstancesPattern(languages)}
+    }
+    GROUP BY ?item ?itemLabel ?itemDescription ?location ?wikipediaUrl
+    ORDER BY ?rank
+    LIMIT ${limit}
+  `
+
+  try {
+    const { data, stale } = await runSparqlQuery(sparqlQuery)
+    console.log('Name search response:', data.results.bindings.length, 'bindings', stale ? '(stale)' : '')
+    return bindingsToItems(data.results.bindings)
+  } catch (error) {
+    console.error('Name search query error:', error)
+    throw toApiError(error, 'Failed to search historical events on Wikidata')
+  }
+}
+
+/**
+ * Run the main query, falling back to the stricter P585-only query when it finds nothing
+ */
+async function queryWikidataEvents(query: EventQuery): Promise<EventQueryResult> {
+  const result = await queryWikidata(query)
+  if (result.items.length > 0) {
+    return result
+  }
+
+  console.log('No results from main query, trying fallback...')
+  const fallback = await queryWikidataFallback(query)
+  console.log('Fallback query returned:', fallback.items.length, 'items')
+  return fallback
+}
+
+/**
+ * Event source backed by the public Wikidata SPARQL endpoint.
+ * Events and births come from separate queries with their own limits, so
+ * people never crowd out events. Event details come from the Wikibase API.
+ */
+export function createWikidataEventSource(): EventSource {
+  return {
+    name: 'wikidata',
+
+    async queryEvents(query: EventQuery): Promise<EventQueryResult> {
+      const [events, births] = await Promise.all([queryWikidataEvents(query), queryWikidataBirths(query)])
+
+      // A person with coordinates of their own can also come back as an event
+      const eventIds = new Set(events.items.map((item) => item.item.value))
+      return {
+        items: [...events.items, ...births.items.filter((item) => !eventIds.has(item.item.value))],
+        truncated: events.truncated
+      }
+    },
+
+    getEvent: getWikidataEvent,
+
+    getRelatedEvents: queryRelatedEvents,
+
+    searchByName: searchWikidataByName
+  }
+}
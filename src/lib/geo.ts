@@ -0,0 +1,78 @@
+/**
+ * Geographic helper functions shared by the API routes and event sources
+ */
+
+/**
+ * Calculate distance between two points using Haversine formula
+ */
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371 // Earth's radius in kilometers
+  const dLat = (lat2 - lat1) * Math.PI / 180
+  const dLng = (lng2 - lng1) * Math.PI / 180
+  const a = 
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return R * c
+}
+
+/**
+ * Axis-aligned box in degrees, as passed in the `bbox` query parameter
+ */
+export interface BoundingBox {
+  minLng: number
+  minLat: number
+  maxLng: number
+  maxLat: number
+}
+
+/**
+ * Parse a "minLng,minLat,maxLng,maxLat" string, returning an error message for invalid boxes.
+ * Boxes crossing the antimeridian are not supported.
+ */
+export function parseBoundingBox(value: string): { bbox: BoundingBox } | { error: string } {
+  const parts = value.split(',').map((part) => Number(part.trim()))
+  if (parts.length !== 4 || parts.some((part) => isNaN(part))) {
+    return { error: 'Invalid bbox. Use bbox=minLng,minLat,maxLng,maxLat with numbers in degrees.' }
+  }
+
+  const [minLng, minLat, maxLng, maxLat] = parts
+  if (minLng < -180 || maxLng > 180 || minLat < -90 || maxLat > 90) {
+    return { error: 'Invalid bbox. Longitudes must be within -180..180 and latitudes within -90..90.' }
+  }
+  if (minLng >= maxLng || minLat >= maxLat) {
+    return { error: 'Invalid bbox. minLng and minLat must be less than maxLng and maxLat.' }
+  }
+
+  return { bbox: { minLng, minLat, maxLng, maxLat } }
+}
+
+/**
+ * Format a bounding box the way parseBoundingBox reads it
+ */
+export function formatBoundingBox({ minLng, minLat, maxLng, maxLat }: BoundingBox): string {
+  return [minLng, minLat, maxLng, maxLat].join(',')
+}
+
+export function getBoundingBoxCenter({ minLng, minLat, maxLng, maxLat }: BoundingBox): { lat: number; lng: number } {
+  return { lat: (minLat + maxLat) / 2, lng: (minLng + maxLng) / 2 }
+}
+
+/**
+ * Distance in km from the center of the box to its farthest corner,
+ * i.e. the radius of a circle around the center that covers the whole box
+ */
+export function getBoundingBoxRadius(bbox: BoundingBox): number {
+  const { lat, lng } = getBoundingBoxCenter(bbox)
+  return Math.max(
+    calculateDistance(lat, lng, bbox.minLat, bbox.minLng),
+    calculateDistance(lat, lng, bbox.minLat, bbox.maxLng),
+    calculateDistance(lat, lng, bbox.maxLat, bbox.minLng),
+    calculateDistance(lat, lng, bbox.maxLat, bbox.maxLng)
+  )
+}
+
+export function isInBoundingBox({ minLng, minLat, maxLng, maxLat }: BoundingBox, lat: number, lng: number): boolean {
+  return lat >= minLat && lat <= maxLat && lng >= minLng && lng <= maxLng
+}
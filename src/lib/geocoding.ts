@@ -0,0 +1,203 @@
+/**
+ * Place-name search for /api/geocode
+ *
+ * Places are looked up in a gazetteer bundled with the app, so the search box
+ * works in development without network access. When a Mapbox token is
+ * configured, Mapbox forward geocoding is used instead, falling back to the
+ * gazetteer if it fails or finds nothing.
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { GeocodeResponse, GeocodeResult } from '@/types/geocoding'
+import { GEOCODING_CONFIG } from '@/lib/config'
+
+/**
+ * A place in the gazetteer file, see scripts/build-gazetteer.js
+ */
+interface GazetteerPlace {
+  geonameId?: number
+  name: string
+  alternateNames?: string[]
+  admin1?: string // State or region, e.g. "Massachusetts"
+  country: string // ISO 3166-1 alpha-2 code
+  lat: number
+  lng: number
+  population: number
+}
+
+interface GazetteerFile {
+  attribution: string
+  places: GazetteerPlace[]
+}
+
+// Gazetteer places with their names normalized once for matching
+interface Gazetteer {
+  attribution: string
+  entries: { place: GazetteerPlace; names: string[]; qualifiers: string[] }[]
+}
+
+const MAPBOX_ATTRIBUTION = '© Mapbox'
+
+// The gazetteer is read once per server process
+let gazetteerPromise: Promise<Gazetteer> | null = null
+
+/**
+ * Lowercase and strip diacritics, so "sao paulo" matches "São Paulo"
+ */
+function normalizeName(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+}
+
+async function loadGazetteer(): Promise<Gazetteer> {
+  const gazetteerPath = GEOCODING_CONFIG.GAZETTEER_PATH
+  const resolvedPath = path.isAbsolute(gazetteerPath) ? gazetteerPath : path.join(process.cwd(), gazetteerPath)
+  const file: GazetteerFile = JSON.parse(await readFile(resolvedPath, 'utf-8'))
+
+  return {
+    attribution: file.attribution,
+    entries: file.places.map((place) => ({
+      place,
+      names: [place.name, ...(place.alternateNames ?? [])].map(normalizeName),
+      qualifiers: [place.admin1, place.country].filter((value): value is string => Boolean(value)).map(normalizeName)
+    }))
+  }
+}
+
+function getGazetteer(): Promise<Gazetteer> {
+  if (!gazetteerPromise) {
+    gazetteerPromise = loadGazetteer().catch((error) => {
+      // Let the next search retry instead of caching the failure
+      gazetteerPromise = null
+      throw error
+    })
+  }
+  return gazetteerPromise
+}
+
+/**
+ * How well a place name matches the search text: exact, prefix, or a later word starting with it
+ */
+function getNameMatch(name: string, needle: string): number {
+  if (name === needle) return 3
+  if (name.startsWith(needle)) return 2
+  return name.split(/[\s-]+/).some((word) => word.startsWith(needle)) ? 1 : 0
+}
+
+/**
+ * Places in the bundled gazetteer matching the text, best matches first and larger places
+ * before smaller ones. Text after a comma narrows the search by region or country code,
+ * e.g. "Portland, Maine" or "Portland, US".
+ */
+async function searchGazetteer(text: string, limit: number): Promise<GeocodeResponse> {
+  const gazetteer = await getGazetteer()
+  const [needle, ...qualifierParts] = normalizeName(text).split(',').map((part) => part.trim())
+  const qualifier = qualifierParts.join(' ')
+
+  const matches = gazetteer.entries
+    .map((entry) => ({ entry, match: Math.max(...entry.names.map((name) => getNameMatch(name, needle))) }))
+    .filter(({ entry, match }) =>
+      match > 0 && (!qualifier || entry.qualifiers.some((value) => value.startsWith(qualifier)))
+    )
+    .sort((a, b) => b.match - a.match || b.entry.place.population - a.entry.place.population)
+
+  const results = matches.slice(0, limit).map(({ entry: { place } }): GeocodeResult => ({
+    id: place.geonameId ? `geonames:${place.geonameId}` : `gazetteer:${place.name},${place.admin1 ?? ''},${place.country}`,
+    name: place.name,
+    label: [place.name, place.admin1, place.country].filter(Boolean).join(', '),
+    lat: place.lat,
+    lng: place.lng,
+    population: place.population,
+    source: 'gazetteer'
+  }))
+
+  return { results, attribution: gazetteer.attribution }
+}
+
+/**
+ * Mapbox token for server-side geocoding; the map's public token works as well
+ */
+function getMapboxToken(): string | undefined {
+  return process.env.MAPBOX_ACCESS_TOKEN || process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN || undefined
+}
+
+interface MapboxFeature {
+  id: string
+  geometry: { coordinates: [number, number] }
+  properties: {
+    name: string
+    full_address?: string
+    place_formatted?: string
+    bbox?: [number, number, number, number]
+  }
+}
+
+/**
+ * Places from Mapbox forward geocoding (https://docs.mapbox.com/api/search/geocoding/)
+ */
+async function searchMapbox(text: string, limit: number, language: string, token: string): Promise<GeocodeResponse> {
+  const params = new URLSearchParams({
+    q: text,
+    limit: limit.toString(),
+    language,
+    types: 'country,region,district,place,locality,neighborhood',
+    access_token: token
+  })
+  const response = await fetch(`${GEOCODING_CONFIG.MAPBOX_ENDPOINT}?${params}`, {
+    signal: AbortSignal.timeout(GEOCODING_CONFIG.MAPBOX_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    throw new Error(`Mapbox geocoding failed: ${response.status} ${response.statusText}`)
+  }
+
+  const data: { features: MapboxFeature[] } = await response.json()
+  const results = data.features.map(({ id, geometry, properties }): GeocodeResult => ({
+    id,
+    name: properties.name,
+    label: properties.full_address
+      ?? [properties.name, properties.place_formatted].filter(Boolean).join(', '),
+    lat: geometry.coordinates[1],
+    lng: geometry.coordinates[0],
+    bbox: properties.bbox,
+    source: 'mapbox'
+  }))
+
+  return { results, attribution: MAPBOX_ATTRIBUTION }
+}
+
+/**
+ * Validate the place name, returning an error message if it is missing or too long
+ */
+export function parsePlaceText(value: string | null): { text: string } | { error: string } {
+  const text = (value ?? '').trim().replace(/\s+/g, ' ')
+  if (text.length < GEOCODING_CONFIG.MIN_QUERY_LENGTH) {
+    return { error: `Place name too short. Provide at least ${GEOCODING_CONFIG.MIN_QUERY_LENGTH} characters in q.` }
+  }
+  if (text.length > GEOCODING_CONFIG.MAX_QUERY_LENGTH) {
+    return { error: `Place name too long. Maximum allowed is ${GEOCODING_CONFIG.MAX_QUERY_LENGTH} characters.` }
+  }
+  return { text }
+}
+
+/**
+ * Places matching the text, best matches first, in the first language of the chain where the provider supports it
+ */
+export async function geocodePlace(text: string, languages: string[], limit: number): Promise<GeocodeResponse> {
+  const token = getMapboxToken()
+  if (token) {
+    try {
+      const response = await searchMapbox(text, limit, languages[0], token)
+      if (response.results.length > 0) {
+        console.log(`Geocoding "${text}": ${response.results.length} places from Mapbox`)
+        return response
+      }
+    } catch (error) {
+      console.warn('Mapbox geocoding failed, using the gazetteer:', error)
+    }
+  }
+
+  const response = await searchGazetteer(text, limit)
+  console.log(`Geocoding "${text}": ${response.results.length} places from the gazetteer`)
+  return response
+}
@@ -0,0 +1,216 @@
+/**
+ * Polygon validation and point-in-polygon tests for area searches
+ *
+ * Coordinates are treated as planar lng/lat, which is accurate enough for
+ * the polygon sizes the API accepts. Polygons crossing the antimeridian are
+ * not supported.
+ */
+
+import { GEOGRAPHIC_CONFIG } from '@/lib/config'
+import { BoundingBox, getBoundingBoxRadius } from '@/lib/geo'
+
+export type AreaPolygon = GeoJSON.Polygon | GeoJSON.MultiPolygon
+
+/**
+ * Why a polygon or route was rejected, returned to clients as a structured 400 error
+ */
+export interface GeometryError {
+  code: 'invalid_geometry' | 'too_many_vertices' | 'polygon_too_large' | 'self_intersection' | 'route_too_long'
+  message: string
+  details?: Record<string, unknown>
+}
+
+export type Position = [number, number] // [lng, lat]
+
+export function isPosition(value: unknown): value is Position {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' && isFinite(value[0]) &&
+    typeof value[1] === 'number' && isFinite(value[1])
+  )
+}
+
+/**
+ * All rings of a polygon or multipolygon, as [polygon index, ring index, ring]
+ */
+function getRings(polygon: AreaPolygon): [number, number, Position[]][] {
+  const polygons = polygon.type === 'Polygon' ? [polygon.coordinates] : polygon.coordinates
+  return polygons.flatMap((rings, polygonIndex) =>
+    rings.map((ring, ringIndex) => [polygonIndex, ringIndex, ring as Position[]] as [number, number, Position[]])
+  )
+}
+
+/**
+ * Sign of the cross product of (b - a) and (c - a): which side of line ab the point c is on
+ */
+function orientation(a: Position, b: Position, c: Position): number {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]))
+}
+
+function isOnSegment(a: Position, b: Position, c: Position): boolean {
+  return (
+    Math.min(a[0], b[0]) <= c[0] && c[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= c[1] && c[1] <= Math.max(a[1], b[1])
+  )
+}
+
+function segmentsIntersect(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  const o1 = orientation(p1, p2, q1)
+  const o2 = orientation(p1, p2, q2)
+  const o3 = orientation(q1, q2, p1)
+  const o4 = orientation(q1, q2, p2)
+
+  if (o1 !== o2 && o3 !== o4) return true
+
+  // Collinear cases: an endpoint lying on the other segment
+  return (
+    (o1 === 0 && isOnSegment(p1, p2, q1)) ||
+    (o2 === 0 && isOnSegment(p1, p2, q2)) ||
+    (o3 === 0 && isOnSegment(q1, q2, p1)) ||
+    (o4 === 0 && isOnSegment(q1, q2, p2))
+  )
+}
+
+/**
+ * Find two non-adjacent edges of a closed ring that cross or touch.
+ * Returns the edge indexes, or null for a simple ring.
+ */
+function findSelfIntersection(ring: Position[]): [number, number] | null {
+  const edgeCount = ring.length - 1
+  for (let i = 0; i < edgeCount; i++) {
+    for (let j = i + 1; j < edgeCount; j++) {
+      // Neighbouring edges share a vertex, including the last and first edge
+      if (j === i + 1 || (i === 0 && j === edgeCount - 1)) continue
+      if (segmentsIntersect(ring[i], ring[i + 1], ring[j], ring[j + 1])) {
+        return [i, j]
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Validate a GeoJSON Polygon or MultiPolygon, accepting either a bare geometry or a Feature
+ */
+export function parsePolygon(value: unknown): { polygon: AreaPolygon } | { error: GeometryError } {
+  const geometry = (value as { type?: string })?.type === 'Feature'
+    ? (value as { geometry?: unknown }).geometry
+    : value
+  const { type, coordinates } = (geometry ?? {}) as { type?: unknown; coordinates?: unknown }
+
+  if ((type !== 'Polygon' && type !== 'MultiPolygon') || !Array.isArray(coordinates)) {
+    return {
+      error: {
+        code: 'invalid_geometry',
+        message: 'Body must be a GeoJSON Polygon or MultiPolygon, or a Feature with one as its geometry.'
+      }
+    }
+  }
+
+  const polygons = type === 'Polygon' ? [coordinates] : coordinates
+  let vertexCount = 0
+
+  for (const [polygonIndex, rings] of polygons.entries()) {
+    if (!Array.isArray(rings) || rings.length === 0) {
+      return { error: { code: 'invalid_geometry', message: 'Each polygon needs at least an exterior ring.', details: { polygon: polygonIndex } } }
+    }
+
+    for (const [ringIndex, ring] of (rings as unknown[]).entries()) {
+      const details = { polygon: polygonIndex, ring: ringIndex }
+
+      if (!Array.isArray(ring) || ring.length < 4 || !ring.every(isPosition)) {
+        return { error: { code: 'invalid_geometry', message: 'Each ring needs at least 4 [lng, lat] positions.', details } }
+      }
+
+      const first = ring[0]
+      const last = ring[ring.length - 1]
+      if (first[0] !== last[0] || first[1] !== last[1]) {
+        return { error: { code: 'invalid_geometry', message: 'Rings must be closed: the last position must equal the first.', details } }
+      }
+
+      if (ring.some(([lng, lat]) => lng < -180 || lng > 180 || lat < -90 || lat > 90)) {
+        return { error: { code: 'invalid_geometry', message: 'Longitudes must be within -180..180 and latitudes within -90..90.', details } }
+      }
+
+      vertexCount += ring.length - 1
+    }
+  }
+
+  if (vertexCount > GEOGRAPHIC_CONFIG.MAX_POLYGON_VERTICES) {
+    return {
+      error: {
+        code: 'too_many_vertices',
+        message: `Polygon has too many vertices. Maximum allowed is ${GEOGRAPHIC_CONFIG.MAX_POLYGON_VERTICES}; simplify it first.`,
+        details: { vertices: vertexCount, max: GEOGRAPHIC_CONFIG.MAX_POLYGON_VERTICES }
+      }
+    }
+  }
+
+  const polygon = { type, coordinates } as AreaPolygon
+
+  const radius = getBoundingBoxRadius(getPolygonBoundingBox(polygon))
+  if (radius > GEOGRAPHIC_CONFIG.MAX_RADIUS_KM) {
+    return {
+      error: {
+        code: 'polygon_too_large',
+        message: `Polygon too large. Its bounding box corners must be within ${GEOGRAPHIC_CONFIG.MAX_RADIUS_KM}km of the box center.`,
+        details: { radiusKm: Math.round(radius), maxKm: GEOGRAPHIC_CONFIG.MAX_RADIUS_KM }
+      }
+    }
+  }
+
+  // Only rings are checked individually; holes touching their exterior ring are not detected
+  for (const [polygonIndex, ringIndex, ring] of getRings(polygon)) {
+    const intersection = findSelfIntersection(ring)
+    if (intersection) {
+      return {
+        error: {
+          code: 'self_intersection',
+          message: 'Polygon ring intersects itself.',
+          details: { polygon: polygonIndex, ring: ringIndex, edges: intersection }
+        }
+      }
+    }
+  }
+
+  return { polygon }
+}
+
+export function getPolygonBoundingBox(polygon: AreaPolygon): BoundingBox {
+  const positions = getRings(polygon).flatMap(([, , ring]) => ring)
+  const lngs = positions.map(([lng]) => lng)
+  const lats = positions.map(([, lat]) => lat)
+  return {
+    minLng: Math.min(...lngs),
+    minLat: Math.min(...lats),
+    maxLng: Math.max(...lngs),
+    maxLat: Math.max(...lats)
+  }
+}
+
+/**
+ * Ray casting test for a single ring
+ */
+function isPointInRing(ring: Position[], lat: number, lng: number): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i]
+    const [lngJ, latJ] = ring[j]
+    if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Whether a point lies inside the polygon: inside an exterior ring and outside its holes
+ */
+export function isPointInPolygon(polygon: AreaPolygon, lat: number, lng: number): boolean {
+  const polygons = polygon.type === 'Polygon' ? [polygon.coordinates] : polygon.coordinates
+  return polygons.some((rings) => {
+    const [exterior, ...holes] = rings as Position[][]
+    return isPointInRing(exterior, lat, lng) && !holes.some((hole) => isPointInRing(hole, lat, lng))
+  })
+}
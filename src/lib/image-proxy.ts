@@ -0,0 +1,185 @@
+/**
+ * Image proxy behind /api/images
+ *
+ * Event images are fetched from Wikimedia by the server, resized to one of a
+ * few widths, converted to WebP and kept on disk, so browsers only load images
+ * from our own origin. Only allowlisted hosts are fetched, and redirects are
+ * followed by hand so that they cannot lead off the allowlist.
+ */
+
+import { createHash } from 'crypto'
+import { mkdir, readFile, rename, stat, writeFile } from 'fs/promises'
+import path from 'path'
+import sharp from 'sharp'
+import { IMAGE_PROXY_CONFIG, SPARQL_CONFIG } from '@/lib/config'
+import { getOptimizedImageUrl } from '@/lib/image-utils'
+
+/**
+ * A resized image, with the cache key that doubles as its ETag
+ */
+export interface ProxiedImage {
+  data: Buffer
+  etag: string
+}
+
+// Images being resized right now, so concurrent requests for the same image fetch it once
+const pendingImages = new Map<string, Promise<ProxiedImage>>()
+
+function isAllowedHost(url: URL): boolean {
+  return (IMAGE_PROXY_CONFIG.ALLOWED_HOSTS as readonly string[]).includes(url.hostname)
+}
+
+/**
+ * Validate the `src` and `w` parameters of an image request
+ */
+export function parseImageParams(searchParams: URLSearchParams): { src: string; width: number } | { error: string } {
+  const src = searchParams.get('src')
+  if (!src) {
+    return { error: 'Missing src. Provide the URL of a Wikimedia image.' }
+  }
+
+  let url: URL
+  try {
+    url = new URL(src)
+  } catch {
+    return { error: 'Invalid src. Provide the URL of a Wikimedia image.' }
+  }
+  if ((url.protocol !== 'https:' && url.protocol !== 'http:') || !isAllowedHost(url)) {
+    return { error: `Invalid src. Only images from ${IMAGE_PROXY_CONFIG.ALLOWED_HOSTS.join(', ')} are served.` }
+  }
+  // Wikidata still returns http:// links for P18 files
+  url.protocol = 'https:'
+
+  const width = Number(searchParams.get('w') || IMAGE_PROXY_CONFIG.DEFAULT_WIDTH)
+  if (!(IMAGE_PROXY_CONFIG.WIDTHS as readonly number[]).includes(width)) {
+    return { error: `Invalid w. w must be one of ${IMAGE_PROXY_CONFIG.WIDTHS.join(', ')}.` }
+  }
+
+  return { src: url.toString(), width }
+}
+
+/**
+ * Read a response body, giving up once it grows past `maxBytes`
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  const chunks: Uint8Array[] = []
+  let size = 0
+  const reader = response.body!.getReader()
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw new Error(`Image is larger than ${maxBytes} bytes`)
+    }
+    chunks.push(chunk.value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Download an image, following redirects only within the allowed hosts
+ */
+async function downloadImage(imageUrl: string): Promise<Buffer> {
+  let url = new URL(imageUrl)
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': SPARQL_CONFIG.USER_AGENT,
+        'Accept': 'image/*'
+      },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(IMAGE_PROXY_CONFIG.TIMEOUT_MS)
+    })
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      url = new URL(location, url)
+      if (redirects >= IMAGE_PROXY_CONFIG.MAX_REDIRECTS) {
+        throw new Error(`Too many redirects for ${imageUrl}`)
+      }
+      if (!isAllowedHost(url)) {
+        throw new Error(`Redirect to ${url.hostname} is not allowed`)
+      }
+      continue
+    }
+
+    if (!response.ok) {
+      throw new Error(`Image request failed: ${response.status} ${response.statusText}`)
+    }
+    if (!response.headers.get('content-type')?.startsWith('image/')) {
+      throw new Error(`Not an image: ${response.headers.get('content-type')}`)
+    }
+    return readLimited(response, IMAGE_PROXY_CONFIG.MAX_SOURCE_BYTES)
+  }
+}
+
+/**
+ * Fetch the image, asking Wikimedia for a thumbnail close to the target width
+ * first. Thumbnails wider than the original do not exist, so the image itself
+ * is the fallback.
+ */
+async function fetchSourceImage(src: string, width: number): Promise<Buffer> {
+  const thumbnailUrl = getOptimizedImageUrl(src, width)
+  if (thumbnailUrl === src) {
+    return downloadImage(src)
+  }
+  try {
+    return await downloadImage(thumbnailUrl)
+  } catch (error) {
+    console.warn(`Image proxy: thumbnail ${thumbnailUrl} failed, fetching ${src}:`, error instanceof Error ? error.message : error)
+    return downloadImage(src)
+  }
+}
+
+function getCacheRoot(): string {
+  const directory = IMAGE_PROXY_CONFIG.CACHE_DIR
+  return path.isAbsolute(directory) ? directory : path.join(process.cwd(), directory)
+}
+
+/**
+ * The image resized to `width` as WebP, from the disk cache if it was fetched
+ * within CACHE_MAX_AGE_SECONDS, otherwise fetched and cached
+ */
+export async function getProxiedImage(src: string, width: number): Promise<ProxiedImage> {
+  const key = createHash('sha256').update(`${src}|${width}`).digest('hex')
+  const filePath = path.join(getCacheRoot(), key.slice(0, 2), `${key}.webp`)
+
+  try {
+    const { mtimeMs } = await stat(filePath)
+    if (Date.now() - mtimeMs < IMAGE_PROXY_CONFIG.CACHE_MAX_AGE_SECONDS * 1000) {
+      return { data: await readFile(filePath), etag: key }
+    }
+  } catch {
+    // Not cached yet
+  }
+
+  const pending = pendingImages.get(key)
+  if (pending) {
+    return pending
+  }
+
+  const resize = (async () => {
+    const source = await fetchSourceImage(src, width)
+    const data = await sharp(source, { failOn: 'none' })
+      .rotate() // Apply the EXIF orientation before it is stripped
+      .resize({ width, withoutEnlargement: true })
+      .webp({ quality: IMAGE_PROXY_CONFIG.QUALITY })
+      .toBuffer()
+
+    // Write to a temporary file first, so readers never see a partial image
+    await mkdir(path.dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await writeFile(tempPath, data)
+    await rename(tempPath, filePath)
+
+    console.log(`Image proxy: cached ${src} at ${width}px (${data.length} bytes)`)
+    return { data, etag: key }
+  })()
+
+  pendingImages.set(key, resize)
+  try {
+    return await resize
+  } finally {
+    pendingImages.delete(key)
+  }
+}
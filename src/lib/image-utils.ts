@@ -2,112 +2,102 @@
  * Utility functions for handling images from Wikidata and Wikipedia
  */
 
+import { EventCategoryKey, ImageAttribution } from '@/types/events'
+import { IMAGE_PROXY_CONFIG } from '@/lib/config'
+
 /**
- * Get the best available image URL for a Wikidata item
- * @param imageUrl - Direct image URL from Wikidata P18 property
- * @param wikipediaUrl - Wikipedia article URL (for fallback)
- * @returns Promise<string | null> - Best available image URL or null
+ * Name of the Commons file behind a Special:FilePath URL, as Wikidata returns
+ * P18 values, with spaces instead of underscores
+ * @param imageUrl - Image URL from the Wikidata P18 property
+ * @returns string | null - File name without the "File:" prefix, or null for other URLs
  */
-export async function getEventImageUrl(
-  imageUrl?: string,
-  wikipediaUrl?: string
-): Promise<string | null> {
-  // If we have a direct Wikidata image, use it
-  if (imageUrl && imageUrl.startsWith('http')) {
-    return imageUrl
-  }
+export function getCommonsFileName(imageUrl: string): string | null {
+  const match = imageUrl.match(/\/Special:FilePath\/([^?#]+)/)
+  if (!match) return null
 
-  // Fallback: Try to extract image from Wikipedia article
-  if (wikipediaUrl) {
-    try {
-      const wikiImageUrl = await getWikipediaImageUrl(wikipediaUrl)
-      if (wikiImageUrl) {
-        return wikiImageUrl
-      }
-    } catch (error) {
-      console.warn('Failed to get Wikipedia image:', error)
-    }
+  try {
+    return decodeURIComponent(match[1]).replace(/_/g, ' ')
+  } catch {
+    return null
   }
-
-  return null
 }
 
 /**
- * Extract the main image from a Wikipedia article
- * @param wikipediaUrl - URL of the Wikipedia article
- * @returns Promise<string | null> - Image URL or null
+ * Get a thumbnail URL of a Wikimedia image scaled to the given width.
+ * Commons scales thumbnails by width only, so the height follows the aspect ratio;
+ * resolveEventImages in event-images.ts fits server-side images to a box instead.
+ * @param imageUrl - Special:FilePath or upload.wikimedia.org image URL
+ * @param width - Desired width in pixels
+ * @returns string - Thumbnail URL, or the input for other image sources
  */
-async function getWikipediaImageUrl(wikipediaUrl: string): Promise<string | null> {
-  try {
-    // Convert Wikipedia URL to API endpoint
-    const title = wikipediaUrl.split('/wiki/')[1]
-    if (!title) return null
-
-    const apiUrl = `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(title)}`
-    
-    const response = await fetch(apiUrl, {
-      headers: {
-        'User-Agent': 'Places-History-App/1.0 (https://github.com/your-repo)',
-        'Accept': 'application/json'
-      }
-    })
-
-    if (!response.ok) return null
+export function getOptimizedImageUrl(imageUrl: string, width: number = 300): string {
+  // Special:FilePath redirects to a thumbnail when given a width
+  const fileName = getCommonsFileName(imageUrl)
+  if (fileName) {
+    return `https://commons.wikimedia.org/wiki/Special:FilePath/${encodeURIComponent(fileName.replace(/ /g, '_'))}?width=${width}`
+  }
 
-    const data = await response.json()
-    
-    // Check for thumbnail or original image
-    if (data.thumbnail?.source) {
-      return data.thumbnail.source
-    }
-    
-    if (data.originalimage?.source) {
-      return data.originalimage.source
+  if (imageUrl.includes('upload.wikimedia.org')) {
+    // Already a thumbnail: .../thumb/a/ab/File.jpg/300px-File.jpg
+    if (imageUrl.includes('/thumb/')) {
+      return imageUrl.replace(/\/(lossy-page1-)?\d+px-([^/]+)$/, `/$1${width}px-$2`)
     }
 
-    return null
-  } catch (error) {
-    console.error('Error fetching Wikipedia image:', error)
-    return null
+    // Original: .../commons/a/ab/File.jpg becomes .../commons/thumb/a/ab/File.jpg/300px-File.jpg
+    const match = imageUrl.match(/^(https?:\/\/upload\.wikimedia\.org\/[^/]+\/[^/]+)\/([0-9a-f]\/[0-9a-f]{2})\/([^/]+)$/)
+    if (match) {
+      const [, base, hashPath, file] = match
+      // Vector and multi-page originals are rendered to raster thumbnails
+      const thumbFile = /\.svg$/i.test(file)
+        ? `${width}px-${file}.png`
+        : /\.(tiff?|pdf|djvu)$/i.test(file) ? `lossy-page1-${width}px-${file}.jpg` : `${width}px-${file}`
+      return `${base}/thumb/${hashPath}/${file}/${thumbFile}`
+    }
   }
+
+  // For other image sources, return as-is
+  return imageUrl
 }
 
 /**
- * Get optimized image URL with size parameters
- * @param imageUrl - Base image URL
- * @param width - Desired width in pixels
- * @param height - Desired height in pixels
- * @returns string - Optimized image URL
+ * Get the URL of an image served through our /api/images proxy, so browsers
+ * never load images from Wikimedia directly
+ * @param imageUrl - Wikimedia image URL, e.g. an event's imageUrl
+ * @param width - One of IMAGE_PROXY_CONFIG.WIDTHS
+ * @returns string - Proxy URL, or the input for images from other hosts
  */
-export function getOptimizedImageUrl(
-  imageUrl: string,
-  width: number = 300,
-  height: number = 200
-): string {
-  // For Wikimedia Commons images, we can optimize the URL
-  if (imageUrl.includes('upload.wikimedia.org')) {
-    // Wikimedia Commons supports URL parameters for resizing
-    // Example: https://upload.wikimedia.org/wikipedia/commons/thumb/.../300px-...
+export function getProxiedImageUrl(imageUrl: string, width: number = IMAGE_PROXY_CONFIG.DEFAULT_WIDTH): string {
+  try {
+    const { hostname } = new URL(imageUrl)
+    if (!(IMAGE_PROXY_CONFIG.ALLOWED_HOSTS as readonly string[]).includes(hostname)) {
+      return imageUrl
+    }
+  } catch {
     return imageUrl
   }
-
-  // For other image sources, return as-is
-  return imageUrl
+  return `/api/images?${new URLSearchParams({ src: imageUrl, w: String(width) })}`
 }
 
 /**
  * Get a placeholder image URL for events without images
- * @param label - Event label for alt text
- * @returns string - Placeholder image URL
+ * @param label - Event label shown on the placeholder
+ * @param category - Event category, which sets the placeholder color
+ * @returns string - URL of an SVG rendered by /api/images/placeholder
+ */
+export function getPlaceholderImageUrl(label: string, category?: EventCategoryKey): string {
+  const params = new URLSearchParams({ label })
+  if (category) params.set('category', category)
+  return `/api/images/placeholder?${params}`
+}
+
+/**
+ * One-line credit for an image, e.g. "John Smith, CC BY-SA 4.0"
+ * @param attribution - Credit of an event image
+ * @returns string - Author and license, naming whichever is unknown
  */
-export function getPlaceholderImageUrl(label: string): string {
-  // You can use services like:
-  // 1. Placeholder.com
-  // 2. Picsum Photos
-  // 3. Your own placeholder images
-  
-  const encodedLabel = encodeURIComponent(label)
-  return `https://via.placeholder.com/300x200/4a5568/ffffff?text=${encodedLabel}`
+export function formatImageCredit(attribution: ImageAttribution): string {
+  const credit = `${attribution.author ?? 'Unknown author'}, ${attribution.license ?? 'license unknown'}`
+  return attribution.freeLicense ? credit : `${credit} (no known free license)`
 }
 
 /**
@@ -0,0 +1,70 @@
+/**
+ * Language handling for labels, descriptions and Wikipedia links
+ *
+ * A language parameter is a fallback chain such as "de,en": the first
+ * language that has a value wins for each field.
+ */
+
+export const DEFAULT_LANGUAGES = ['en']
+
+// Longest fallback chain accepted from clients; every language adds OPTIONAL patterns to the queries
+const MAX_LANGUAGES = 5
+
+// Wikimedia language codes: "en", "de", "pt-br", "zh-hans", ...
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[a-z]{2,8})?$/
+
+/**
+ * Parse a comma-separated language chain, returning an error message for invalid codes
+ */
+export function parseLanguageParam(value: string | null): { languages: string[] } | { error: string } {
+  if (!value) {
+    return { languages: DEFAULT_LANGUAGES }
+  }
+
+  const languages = Array.from(new Set(value.split(',').map((code) => code.trim().toLowerCase()).filter(Boolean)))
+  if (languages.length === 0 || languages.length > MAX_LANGUAGES) {
+    return { error: `Invalid lang. Provide between 1 and ${MAX_LANGUAGES} comma-separated language codes, e.g. "de,en".` }
+  }
+
+  const invalid = languages.find((code) => !LANGUAGE_CODE.test(code))
+  if (invalid) {
+    return { error: `Invalid language code "${invalid}" in lang.` }
+  }
+
+  return { languages }
+}
+
+/**
+ * Language chain from the browser settings, always ending in English
+ */
+export function getPreferredLanguages(): string[] {
+  if (typeof navigator === 'undefined') {
+    return DEFAULT_LANGUAGES
+  }
+
+  const codes = (navigator.languages || [navigator.language])
+    .map((tag) => tag.split('-')[0].toLowerCase())
+    .filter((code) => LANGUAGE_CODE.test(code))
+
+  return Array.from(new Set([...codes, ...DEFAULT_LANGUAGES])).slice(0, MAX_LANGUAGES)
+}
+
+/**
+ * Wikipedia site for a language code, e.g. "https://de.wikipedia.org/"
+ */
+export function getWikipediaSite(language: string): string {
+  return `https://${language}.wikipedia.org/`
+}
+
+/**
+ * Pick the value for the first language in the chain that has one
+ */
+export function pickLanguage<T>(values: Record<string, T> | undefined, languages: string[]): T | undefined {
+  if (!values) return undefined
+  for (const language of languages) {
+    if (values[language] !== undefined) {
+      return values[language]
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,53 @@
+/**
+ * Event search by name for /api/search
+ *
+ * Matches labels and aliases through the event source (Wikidata's entity
+ * search, or the fixture's own index) and returns events with coordinates,
+ * so the UI can fly the map to a result.
+ */
+
+import { unstable_cache } from 'next/cache'
+import { EventsResponse } from '@/types/events'
+import { SEARCH_CONFIG } from '@/lib/config'
+import { itemsToFeatures } from '@/lib/event-search'
+import { resolveEventImages } from '@/lib/event-images'
+import { getEventSource } from '@/lib/event-sources'
+
+/**
+ * Validate the search text, returning an error message if it is missing or too long
+ */
+export function parseSearchText(value: string | null): { text: string } | { error: string } {
+  // Collapse whitespace so equivalent searches share a cache entry
+  const text = (value ?? '').trim().replace(/\s+/g, ' ')
+  if (text.length < SEARCH_CONFIG.MIN_QUERY_LENGTH) {
+    return { error: `Search text too short. Provide at least ${SEARCH_CONFIG.MIN_QUERY_LENGTH} characters in q.` }
+  }
+  if (text.length > SEARCH_CONFIG.MAX_QUERY_LENGTH) {
+    return { error: `Search text too long. Maximum allowed is ${SEARCH_CONFIG.MAX_QUERY_LENGTH} characters.` }
+  }
+  return { text }
+}
+
+/**
+ * Events whose label or alias matches the text, best matches first, cached for an hour
+ */
+export async function searchEventsByName(text: string, languages: string[], limit: number): Promise<EventsResponse> {
+  const source = getEventSource()
+  const cached = unstable_cache(
+    () => source.searchByName(text, languages, limit),
+    [`${source.name}-search`, `q:${text.toLowerCase()}`, `lang:${languages.join(',')}`, `limit:${limit}`],
+    {
+      revalidate: 3600, // 1 hour
+      tags: [source.name]
+    }
+  )
+
+  const features = await resolveEventImages(itemsToFeatures(await cached()))
+  console.log(`Name search for "${text}": ${features.length} events`)
+
+  return {
+    type: 'FeatureCollection',
+    features,
+    total: features.length
+  }
+}
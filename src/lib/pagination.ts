@@ -0,0 +1,41 @@
+/**
+ * Offset-based cursor pagination for API responses
+ *
+ * Cursors are opaque to clients: a base64url-encoded JSON object holding the
+ * offset of the next page. Results must be sorted deterministically before
+ * paginating so that walking the cursors visits every item exactly once.
+ */
+
+export interface Page<T> {
+  items: T[]
+  next: string | null
+  total: number
+}
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset })).toString('base64url')
+}
+
+/**
+ * Decode a cursor into an offset, returning null if it is malformed
+ */
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    return Number.isInteger(o) && o >= 0 ? o : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Slice one page out of a sorted list, starting at `offset`
+ */
+export function paginate<T>(items: T[], limit: number, offset: number): Page<T> {
+  const end = offset + limit
+  return {
+    items: items.slice(offset, end),
+    next: end < items.length ? encodeCursor(end) : null,
+    total: items.length
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Placeholder images for events without a picture, rendered as SVG by
+ * /api/images/placeholder instead of relying on a third-party service
+ */
+
+import { EventCategoryKey } from '@/types/events'
+import { EVENT_CATEGORIES } from '@/lib/categories'
+
+const WIDTH = 320
+const HEIGHT = 200
+const FONT_SIZE = 20
+const LINE_HEIGHT = 26
+const MAX_LINES = 3
+// Roughly how many characters of FONT_SIZE fit on a line
+const LINE_LENGTH = 26
+
+// Background colors per category, from the Tailwind palette used by the UI
+const CATEGORY_COLORS: Record<EventCategoryKey, string> = {
+  battle: '#b91c1c',
+  disaster: '#c2410c',
+  building: '#4338ca',
+  treaty: '#0f766e',
+  birth: '#7e22ce',
+  political: '#1d4ed8',
+  culture: '#be185d',
+  sports: '#15803d',
+  other: '#4a5568',
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+/**
+ * Break the label into lines at spaces, ending with an ellipsis if it does not fit
+ */
+function wrapLabel(label: string): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of label.split(/\s+/).filter(Boolean)) {
+    if (line && `${line} ${word}`.length > LINE_LENGTH) {
+      lines.push(line)
+      line = ''
+    }
+    line = line ? `${line} ${word}` : word
+  }
+  if (line) lines.push(line)
+
+  if (lines.length > MAX_LINES) {
+    lines.length = MAX_LINES
+    lines[MAX_LINES - 1] = `${lines[MAX_LINES - 1].slice(0, LINE_LENGTH - 1)}…`
+  }
+  return lines.map((text) => (text.length > LINE_LENGTH ? `${text.slice(0, LINE_LENGTH - 1)}…` : text))
+}
+
+/**
+ * SVG showing the event label on a background in the color of its category
+ */
+export function renderPlaceholderSvg(label: string, category: EventCategoryKey = 'other'): string {
+  const lines = wrapLabel(label)
+  const firstLineY = Math.round(HEIGHT / 2 - ((lines.length - 1) * LINE_HEIGHT) / 2 + FONT_SIZE / 3)
+  const text = lines
+    .map((line, i) => `<tspan x="${WIDTH / 2}" y="${firstLineY + i * LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+    .join('')
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" preserveAspectRatio="xMidYMid slice">`
+    + `<rect width="100%" height="100%" fill="${CATEGORY_COLORS[category]}"/>`
+    + `<text x="${WIDTH / 2}" y="28" fill="#ffffff" fill-opacity="0.75" font-family="system-ui, sans-serif" font-size="12" letter-spacing="1.5" text-anchor="middle">${escapeXml(EVENT_CATEGORIES[category].label.toUpperCase())}</text>`
+    + `<text fill="#ffffff" font-family="system-ui, sans-serif" font-size="${FONT_SIZE}" font-weight="600" text-anchor="middle">${text}</text>`
+    + '</svg>'
+}
@@ -0,0 +1,44 @@
+/**
+ * RFC 7807 problem details as sent by the API for every error, and reading
+ * them back on the client. The server-side error classes are in errors.ts.
+ */
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json'
+
+/**
+ * Problem details body; `type` is a URN derived from `code`.
+ * `error` repeats `detail` for clients written against the older `{ error }` responses.
+ */
+export interface ProblemDetails {
+  type: string
+  title: string
+  status: number
+  detail: string
+  // Stable machine-readable code, e.g. invalid_parameter or upstream_timeout
+  code: string
+  // Seconds to wait before retrying, also sent as the Retry-After header
+  retryAfter?: number
+  // Extra machine-readable context, e.g. where a polygon intersects itself
+  details?: unknown
+  error: string
+}
+
+/**
+ * Error for a failed API response with the message the user should see:
+ * the problem detail, plus how long to wait when the API said so.
+ * Falls back to the HTTP status for responses without a problem body.
+ */
+export async function getResponseError(response: Response): Promise<Error> {
+  let problem: Partial<ProblemDetails> | null = null
+  try {
+    problem = await response.json()
+  } catch {
+    // Not JSON, e.g. a proxy error page
+  }
+
+  const detail = problem?.detail ?? problem?.error
+  if (!detail) {
+    return new Error(`HTTP error! status: ${response.status}`)
+  }
+  return new Error(problem?.retryAfter ? `${detail} (try again in ${problem.retryAfter}s)` : detail)
+}
@@ -0,0 +1,115 @@
+/**
+ * Related events for /api/events/[qid]/related
+ *
+ * Combines events linked to the selected event in the knowledge graph with
+ * events close to its coordinates, keeps the strongest relation for each
+ * event and ranks them.
+ */
+
+import { unstable_cache } from 'next/cache'
+import { EventFeature, EventRelation, EventsResponse } from '@/types/events'
+import { DATE_RANGE_CONFIG, EVENT_SOURCE_CONFIG, RELATED_CONFIG } from '@/lib/config'
+import { getEventDetail } from '@/lib/event-detail'
+import { convertToFullGeoJSON, findEvents, itemsToFeatures } from '@/lib/event-search'
+import { resolveEventImages } from '@/lib/event-images'
+import { getEventSource, EventSource } from '@/lib/event-sources'
+
+// Base score of each relation; direct structural links rank above shared context and proximity
+const RELATION_WEIGHTS: Record<EventRelation, number> = {
+  'part-of': 100,
+  'has-part': 90,
+  'previous': 85,
+  'next': 85,
+  'same-conflict': 80,
+  'sibling': 70,
+  'same-participant': 60,
+  'nearby': 50,
+}
+
+/**
+ * Graph relations of an event, cached like event details
+ */
+async function cachedRelatedItems(source: EventSource, qid: string, languages: string[]) {
+  const cached = unstable_cache(
+    () => source.getRelatedEvents(qid, languages),
+    [`${source.name}-related`, qid, `lang:${languages.join(',')}`],
+    {
+      revalidate: EVENT_SOURCE_CONFIG.DETAIL_CACHE_SECONDS,
+      tags: [`${source.name}-event`]
+    }
+  )
+  return cached()
+}
+
+/**
+ * Rank by relation, then prefer events with more content and closer to the selected event
+ */
+function getScore({ properties }: EventFeature): number {
+  let score = RELATION_WEIGHTS[properties.relation ?? 'nearby']
+  if (properties.wikipediaUrl) score += 5
+  if (properties.imageUrl) score += 3
+  if (properties.description) score += 2
+  return score - Math.min(properties.distance ?? 0, 10)
+}
+
+/**
+ * Related events of an event, best first, or null if the event does not exist.
+ * `distance` is measured from the selected event when it has coordinates.
+ */
+export async function findRelatedEvents(qid: string, languages: string[]): Promise<EventsResponse | null> {
+  const detail = await getEventDetail(qid, languages)
+  if (!detail) {
+    return null
+  }
+
+  const source = getEventSource()
+  const position = detail.coordinates[0]
+  const [relatedItems, nearbyFeatures] = await Promise.all([
+    cachedRelatedItems(source, qid, languages),
+    position
+      ? findEvents(
+          { lat: position[1], lng: position[0], radius: RELATED_CONFIG.NEARBY_RADIUS_KM },
+          {
+            startYear: DATE_RANGE_CONFIG.DEFAULT_START_YEAR,
+            endYear: new Date().getFullYear(),
+            filterOptions: { sort: 'distance', order: 'asc' },
+            languages
+          }
+        )
+      : Promise.resolve([])
+  ])
+
+  const relatedFeatures = relatedItems.flatMap(({ relation, item }): EventFeature[] => {
+    // Without coordinates of its own, the event has no meaningful distances
+    const features = position
+      ? convertToFullGeoJSON([item], position[1], position[0], Infinity).features
+      : itemsToFeatures([item])
+    return features.map((feature) => ({ ...feature, properties: { ...feature.properties, relation } }))
+  })
+  const nearby = nearbyFeatures.map((feature): EventFeature => ({
+    ...feature,
+    properties: { ...feature.properties, relation: 'nearby' }
+  }))
+
+  // Keep the strongest relation for each event, leaving out the event itself
+  const best = new Map<string, EventFeature>()
+  for (const feature of [...relatedFeatures, ...nearby]) {
+    const { id } = feature.properties
+    if (id === detail.id) continue
+    const current = best.get(id)
+    if (!current || getScore(feature) > getScore(current)) {
+      best.set(id, feature)
+    }
+  }
+
+  const features = Array.from(best.values()).sort((a, b) =>
+    getScore(b) - getScore(a) || a.properties.id.localeCompare(b.properties.id)
+  )
+  console.log(`Related events for ${qid}: ${relatedItems.length} graph relations, ${nearbyFeatures.length} nearby, ${features.length} unique`)
+
+  return {
+    type: 'FeatureCollection',
+    features: await resolveEventImages(features.slice(0, RELATED_CONFIG.MAX_RESULTS)),
+    total: features.length
+  }
+}
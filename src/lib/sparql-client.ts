@@ -0,0 +1,332 @@
+/**
+ * Shared client for the Wikidata SPARQL endpoint
+ *
+ * All SPARQL traffic goes through `runSparqlQuery`, which:
+ * - caps the number of concurrent queries
+ * - retries 429/5xx responses and network errors with jittered exponential
+ *   backoff, honoring `Retry-After`
+ * - trips a circuit breaker after repeated failures and, while it is open,
+ *   serves the last successful result for the same query when one exists
+ *
+ * State lives at module level so it is shared by every request handled by
+ * the same server process.
+ */
+
+import { SPARQL_CONFIG } from '@/lib/config'
+
+export type SparqlBinding = Record<string, { value: string } | undefined>
+
+export interface SparqlResponse {
+  head?: { vars: string[] }
+  results: {
+    bindings: SparqlBinding[]
+  }
+}
+
+export interface SparqlResult {
+  data: SparqlResponse
+  // True when the data came from the stale cache instead of Wikidata
+  stale: boolean
+  attempts: number
+  responseTime: number
+}
+
+export interface SparqlQueryOptions {
+  timeoutMs?: number
+  maxRetries?: number
+  // Serve the last successful result for this query if Wikidata is unavailable
+  allowStale?: boolean
+}
+
+/**
+ * Base error for SPARQL failures
+ */
+export class SparqlError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly retryAfterMs?: number) {
+    super(message)
+    this.name = 'SparqlError'
+  }
+}
+
+/**
+ * The query did not finish within the configured timeout
+ */
+export class SparqlTimeoutError extends SparqlError {
+  constructor(timeoutMs: number) {
+    super(`Wikidata query timed out after ${timeoutMs}ms`)
+    this.name = 'SparqlTimeoutError'
+  }
+}
+
+/**
+ * Wikidata answered 429 Too Many Requests
+ */
+export class SparqlRateLimitError extends SparqlError {
+  constructor(retryAfterMs?: number) {
+    super('Wikidata rate limit exceeded', 429, retryAfterMs)
+    this.name = 'SparqlRateLimitError'
+  }
+}
+
+/**
+ * The circuit breaker is open and no stale result is available
+ */
+export class SparqlCircuitOpenError extends SparqlError {
+  constructor(retryAfterMs: number) {
+    super('Wikidata is temporarily unavailable', 503, retryAfterMs)
+    this.name = 'SparqlCircuitOpenError'
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open'
+
+const circuit = {
+  state: 'closed' as CircuitState,
+  consecutiveFailures: 0,
+  openUntil: 0,
+  // Only one trial query is let through while half-open
+  trialInFlight: false,
+}
+
+let activeQueries = 0
+const waitingQueries: (() => void)[] = []
+
+// Insertion-ordered map used as a small LRU of successful results
+const staleCache = new Map<string, SparqlResponse>()
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504])
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Wait for a free query slot
+ */
+async function acquireSlot(): Promise<void> {
+  if (activeQueries < SPARQL_CONFIG.MAX_CONCURRENT_QUERIES) {
+    activeQueries++
+    return
+  }
+  // The releasing query hands its slot over directly, so activeQueries stays the same
+  await new Promise<void>((resolve) => waitingQueries.push(resolve))
+}
+
+function releaseSlot(): void {
+  const next = waitingQueries.shift()
+  if (next) {
+    next()
+  } else {
+    activeQueries--
+  }
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(header)
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return undefined
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(SPARQL_CONFIG.MAX_BACKOFF_MS, SPARQL_CONFIG.BASE_BACKOFF_MS * 2 ** attempt)
+  return Math.random() * ceiling
+}
+
+function rememberResult(query: string, data: SparqlResponse): void {
+  staleCache.delete(query)
+  staleCache.set(query, data)
+  if (staleCache.size > SPARQL_CONFIG.STALE_CACHE_SIZE) {
+    const oldest = staleCache.keys().next().value
+    if (oldest !== undefined) {
+      staleCache.delete(oldest)
+    }
+  }
+}
+
+/**
+ * Check whether the circuit lets a query through, moving open -> half-open once the cooldown is over
+ */
+function canAttempt(): boolean {
+  if (circuit.state === 'closed') return true
+
+  if (circuit.state === 'open' && Date.now() >= circuit.openUntil) {
+    circuit.state = 'half-open'
+    circuit.trialInFlight = false
+  }
+
+  if (circuit.state === 'half-open' && !circuit.trialInFlight) {
+    circuit.trialInFlight = true
+    return true
+  }
+
+  return false
+}
+
+function recordSuccess(): void {
+  if (circuit.state !== 'closed') {
+    console.log('SPARQL circuit closed')
+  }
+  circuit.state = 'closed'
+  circuit.consecutiveFailures = 0
+  circuit.trialInFlight = false
+}
+
+function recordFailure(retryAfterMs?: number): void {
+  circuit.consecutiveFailures++
+  circuit.trialInFlight = false
+
+  const shouldOpen =
+    circuit.state === 'half-open' ||
+    circuit.consecutiveFailures >= SPARQL_CONFIG.CIRCUIT_FAILURE_THRESHOLD ||
+    (retryAfterMs !== undefined && retryAfterMs > SPARQL_CONFIG.MAX_RETRY_AFTER_MS)
+
+  if (shouldOpen) {
+    const cooldown = Math.max(SPARQL_CONFIG.CIRCUIT_COOLDOWN_MS, retryAfterMs ?? 0)
+    circuit.state = 'open'
+    circuit.openUntil = Date.now() + cooldown
+    console.warn(`SPARQL circuit opened for ${cooldown}ms after ${circuit.consecutiveFailures} consecutive failures`)
+  }
+}
+
+/**
+ * Perform a single HTTP request against the SPARQL endpoint
+ */
+async function fetchSparql(query: string, timeoutMs: number): Promise<SparqlResponse> {
+  const url = `${SPARQL_CONFIG.ENDPOINT}?query=${encodeURIComponent(query)}&format=json`
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      headers: {
+        'User-Agent': SPARQL_CONFIG.USER_AGENT,
+        'Accept': 'application/sparql-results+json'
+      },
+      signal: AbortSignal.timeout(timeoutMs)
+    })
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw new SparqlTimeoutError(timeoutMs)
+    }
+    throw new SparqlError(`Network error while querying Wikidata: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+    console.error('Wikidata response error:', response.status, errorText.slice(0, 500))
+
+    if (response.status === 429) {
+      throw new SparqlRateLimitError(retryAfterMs)
+    }
+    throw new SparqlError(`Wikidata query failed: ${response.status}`, response.status, retryAfterMs)
+  }
+
+  const data = await response.json()
+  if (!data.results || !Array.isArray(data.results.bindings)) {
+    throw new SparqlError('Unexpected Wikidata response format')
+  }
+  return data
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof SparqlTimeoutError) return false
+  if (error instanceof SparqlError) {
+    // Network errors have no status
+    return error.status === undefined || RETRYABLE_STATUSES.has(error.status)
+  }
+  return false
+}
+
+/**
+ * Run a SPARQL query against Wikidata with retries, concurrency limiting and circuit breaking
+ */
+export async function runSparqlQuery(query: string, options: SparqlQueryOptions = {}): Promise<SparqlResult> {
+  const {
+    timeoutMs = SPARQL_CONFIG.TIMEOUT_MS,
+    maxRetries = SPARQL_CONFIG.MAX_RETRIES,
+    allowStale = true
+  } = options
+  const startTime = Date.now()
+
+  const serveStale = (error: SparqlError): SparqlResult => {
+    const staleData = allowStale ? staleCache.get(query) : undefined
+    if (!staleData) {
+      throw error
+    }
+    console.warn('Serving stale SPARQL result:', error.message)
+    return { data: staleData, stale: true, attempts: 0, responseTime: Date.now() - startTime }
+  }
+
+  if (!canAttempt()) {
+    return serveStale(new SparqlCircuitOpenError(Math.max(0, circuit.openUntil - Date.now())))
+  }
+
+  await acquireSlot()
+  let attempts = 0
+  try {
+    for (;;) {
+      attempts++
+      try {
+        const data = await fetchSparql(query, timeoutMs)
+        recordSuccess()
+        rememberResult(query, data)
+        return { data, stale: false, attempts, responseTime: Date.now() - startTime }
+      } catch (error) {
+        const retryAfterMs = error instanceof SparqlError ? error.retryAfterMs : undefined
+        const canWait = retryAfterMs === undefined || retryAfterMs <= SPARQL_CONFIG.MAX_RETRY_AFTER_MS
+
+        if (attempts > maxRetries || !isRetryable(error) || !canWait) {
+          throw error
+        }
+
+        const delay = retryAfterMs ?? getBackoffDelay(attempts - 1)
+        console.warn(`SPARQL attempt ${attempts} failed, retrying in ${Math.round(delay)}ms:`, error instanceof Error ? error.message : error)
+        await sleep(delay)
+      }
+    }
+  } catch (error) {
+    const sparqlError = error instanceof SparqlError
+      ? error
+      : new SparqlError(error instanceof Error ? error.message : 'Unknown SPARQL error')
+
+    // Bad queries are our fault, not a sign that Wikidata is unhealthy
+    if (sparqlError.status === undefined || sparqlError.status >= 429) {
+      recordFailure(sparqlError.retryAfterMs)
+    } else {
+      circuit.trialInFlight = false
+    }
+    return serveStale(sparqlError)
+  } finally {
+    releaseSlot()
+  }
+}
+
+/**
+ * Snapshot of the client state for diagnostics
+ */
+export function getSparqlClientStatus() {
+  return {
+    circuit: circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    openForMs: circuit.state === 'open' ? Math.max(0, circuit.openUntil - Date.now()) : 0,
+    activeQueries,
+    queuedQueries: waitingQueries.length,
+    staleEntries: staleCache.size,
+  }
+}
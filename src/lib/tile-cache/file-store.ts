@@ -0,0 +1,151 @@
+import { mkdir, readFile, readdir, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import { WikidataItem } from '@/types/events'
+import { BoundingBox } from '@/lib/geo'
+import { TileCacheEntry, TileCacheInvalidation, TileCacheStore, TileSearchCount } from './types'
+
+/**
+ * Contents of one tile file: every cached year span of the tile
+ */
+interface TileFile {
+  bbox: BoundingBox
+  spans: { startYear: number; endYear: number; expiresAt: string; items: WikidataItem[] }[]
+}
+
+function intersects(a: BoundingBox, b: BoundingBox): boolean {
+  return a.minLng < b.maxLng && a.maxLng > b.minLng && a.minLat < b.maxLat && a.maxLat > b.minLat
+}
+
+async function readTileFile(filePath: string): Promise<TileFile | null> {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf-8'))
+  } catch {
+    // Missing, or cut short by a crash while writing; either way the tile is fetched again
+    return null
+  }
+}
+
+// Search counts of a source, keyed by "<languages>|<z>/<x>/<y>"
+type SearchCounts = Record<string, number>
+
+/**
+ * Tile cache in local JSON files, one per source, language chain and tile.
+ * Meant for development and single-server deployments; the file layout is
+ * `<dir>/<source>/<languages>/<z>/<x>/<y>.json`, with search counts in
+ * `<dir>/<source>/searches.json`.
+ */
+export function createFileTileCacheStore(directory: string): TileCacheStore {
+  const root = path.isAbsolute(directory) ? directory : path.join(process.cwd(), directory)
+
+  const getSourceDirectory = (source: string) => path.join(root, encodeURIComponent(source))
+  const getFilePath = (source: string, languages: string, tileKey: string) =>
+    path.join(getSourceDirectory(source), encodeURIComponent(languages), `${tileKey}.json`)
+  const getSearchesPath = (source: string) => path.join(getSourceDirectory(source), 'searches.json')
+
+  const readSearchCounts = async (source: string): Promise<SearchCounts> => {
+    try {
+      return JSON.parse(await readFile(getSearchesPath(source), 'utf-8'))
+    } catch {
+      return {}
+    }
+  }
+
+  // Search counts are read, updated and written back, one update at a time
+  let searchUpdates = Promise.resolve()
+
+  return {
+    name: `file:${directory}`,
+
+    async find(source, languages, tiles, startYear, endYear) {
+      const now = Date.now()
+      const found = new Map<string, WikidataItem[]>()
+
+      await Promise.all(tiles.map(async (tile) => {
+        const file = await readTileFile(getFilePath(source, languages, tile.key))
+        const span = file?.spans.find((span) =>
+          span.startYear <= startYear && span.endYear >= endYear && Date.parse(span.expiresAt) > now
+        )
+        if (span) {
+          found.set(tile.key, span.items)
+        }
+      }))
+      return found
+    },
+
+    async save(entries: TileCacheEntry[]) {
+      const now = Date.now()
+      for (const entry of entries) {
+        const filePath = getFilePath(entry.source, entry.languages, entry.tile.key)
+        const existing = await readTileFile(filePath)
+
+        // Replace the same span and drop expired ones, keeping other spans of the tile
+        const spans = (existing?.spans ?? []).filter((span) =>
+          Date.parse(span.expiresAt) > now && !(span.startYear === entry.startYear && span.endYear === entry.endYear)
+        )
+        spans.push({
+          startYear: entry.startYear,
+          endYear: entry.endYear,
+          expiresAt: entry.expiresAt.toISOString(),
+          items: entry.items
+        })
+
+        await mkdir(path.dirname(filePath), { recursive: true })
+        await writeFile(filePath, JSON.stringify({ bbox: entry.tile.bbox, spans } satisfies TileFile))
+      }
+    },
+
+    async invalidate({ source, bbox, expiredOnly }: TileCacheInvalidation) {
+      const directory = source ? getSourceDirectory(source) : root
+      let fileNames: string[]
+      try {
+        fileNames = await readdir(directory, { recursive: true })
+      } catch {
+        return 0
+      }
+
+      const now = Date.now()
+      let removed = 0
+      const tileFileNames = fileNames.filter((name) => name.endsWith('.json') && path.basename(name) !== 'searches.json')
+      for (const fileName of tileFileNames) {
+        const filePath = path.join(directory, fileName)
+        const file = await readTileFile(filePath)
+        if (!file || (bbox && !intersects(file.bbox, bbox))) continue
+
+        const spans = expiredOnly ? file.spans.filter((span) => Date.parse(span.expiresAt) > now) : []
+        removed += file.spans.length - spans.length
+        if (spans.length === 0) {
+          await rm(filePath, { force: true })
+        } else if (spans.length < file.spans.length) {
+          await writeFile(filePath, JSON.stringify({ ...file, spans }))
+        }
+      }
+      return removed
+    },
+
+    recordSearch(source, languages, tileKeys) {
+      const update = searchUpdates.then(async () => {
+        const counts = await readSearchCounts(source)
+        for (const tileKey of tileKeys) {
+          const key = `${languages}|${tileKey}`
+          counts[key] = (counts[key] ?? 0) + 1
+        }
+        await mkdir(getSourceDirectory(source), { recursive: true })
+        await writeFile(getSearchesPath(source), JSON.stringify(counts))
+      })
+      // Later updates wait for this one, whether or not it succeeds
+      searchUpdates = update.catch(() => undefined)
+      return update
+    },
+
+    async getPopularTiles(source, limit) {
+      const counts = await readSearchCounts(source)
+      return Object.entries(counts)
+        .map(([key, searches]): TileSearchCount => {
+          const separator = key.lastIndexOf('|')
+          return { languages: key.slice(0, separator), tile: key.slice(separator + 1), searches }
+        })
+        .sort((a, b) => b.searches - a.searches)
+        .slice(0, limit)
+    }
+  }
+}
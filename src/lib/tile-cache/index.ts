@@ -0,0 +1,284 @@
+/**
+ * Persistent, tile-quantized cache for event source area queries
+ *
+ * Instead of caching each search by its exact center and radius, the search
+ * area is covered with XYZ tiles and the year range is widened to whole
+ * YEAR_SPANs. Each tile is fetched from the event source once, stored, and
+ * shared by every search that touches it; a search is then assembled from
+ * its tiles and cut back to the exact area and years. Stores outlive the
+ * server process, so restarts do not send the same queries to Wikidata again.
+ */
+
+import { WikidataItem } from '@/types/events'
+import { TILE_CACHE_CONFIG } from '@/lib/config'
+import { getBufferedBoundingBox } from '@/lib/corridor'
+import { calculateDistance, getBoundingBoxCenter, getBoundingBoxRadius, isInBoundingBox } from '@/lib/geo'
+import { parseEventDate } from '@/lib/dates'
+import { EventQuery, EventQueryResult, EventSource } from '@/lib/event-sources'
+import { ValidationError } from '@/lib/errors'
+import { createFileTileCacheStore } from './file-store'
+import { createSupabaseTileCacheStore } from './supabase-store'
+import { getChildTiles, getCoveringTiles, getYearSpan } from './tiles'
+import { Tile, TileCacheInvalidation, TileCacheStore } from './types'
+
+export { getCoveringTiles, parseTileKey } from './tiles'
+export type { Tile, TileCacheEntry, TileCacheInvalidation, TileCacheStore, TileSearchCount } from './types'
+
+let store: TileCacheStore | null | undefined
+
+// Tiles being fetched right now, so concurrent searches over the same area query the source once
+const pendingTiles = new Map<string, Promise<WikidataItem[]>>()
+
+/**
+ * How many more event source queries a search may send for the children of truncated tiles
+ */
+interface SplitBudget {
+  remaining: number
+}
+
+/**
+ * Get the store selected by TILE_CACHE_STORE, or null when caching is turned off
+ */
+export function getTileCacheStore(): TileCacheStore | null {
+  if (store !== undefined) {
+    return store
+  }
+
+  switch (TILE_CACHE_CONFIG.STORE) {
+    case 'supabase': {
+      const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+      const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+      if (!url || !serviceRoleKey) {
+        throw new Error('The Supabase tile cache needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.')
+      }
+      store = createSupabaseTileCacheStore(url, serviceRoleKey, TILE_CACHE_CONFIG.TABLE)
+      break
+    }
+    case 'file':
+      store = createFileTileCacheStore(TILE_CACHE_CONFIG.FILE_DIR)
+      break
+    case 'none':
+      store = null
+      break
+    default:
+      throw new Error(`Unknown tile cache store "${TILE_CACHE_CONFIG.STORE}". Use "supabase", "file" or "none".`)
+  }
+  return store
+}
+
+/**
+ * Query the source for a whole tile and year span. When the source hits its row
+ * limit, the tile is queried again as its four children, down to MAX_SPLIT_ZOOM and
+ * as long as the search's split budget lasts; `truncated` is true if some part
+ * was still cut off when either ran out.
+ */
+async function queryTile(
+  source: EventSource,
+  tile: Tile,
+  span: { startYear: number; endYear: number },
+  languages: string[],
+  budget: SplitBudget
+): Promise<EventQueryResult> {
+  const { lat, lng } = getBoundingBoxCenter(tile.bbox)
+  const { items, truncated } = await source.queryEvents({
+    lat,
+    lng,
+    radius: getBoundingBoxRadius(tile.bbox),
+    bbox: tile.bbox,
+    ...span,
+    languages
+  })
+
+  if (!truncated) {
+    return { items, truncated: false }
+  }
+  if (Number(tile.key.split('/')[0]) >= TILE_CACHE_CONFIG.MAX_SPLIT_ZOOM) {
+    return { items, truncated: true }
+  }
+  if (budget.remaining < 4) {
+    console.warn(`Tile ${tile.key} is truncated, but this search has no queries left to split it`)
+    return { items, truncated: true }
+  }
+
+  // Claimed before querying, so sibling tiles splitting at the same time cannot overspend
+  budget.remaining -= 4
+  console.log(`Tile ${tile.key} is truncated, querying its four children`)
+  const children = await Promise.all(getChildTiles(tile).map((child) => queryTile(source, child, span, languages, budget)))
+
+  // Items on a shared edge come back from both neighbours
+  const childItems = new Map<string, WikidataItem>()
+  for (const item of children.flatMap((child) => child.items)) {
+    childItems.set(item.item.value, item)
+  }
+  return { items: Array.from(childItems.values()), truncated: children.some((child) => child.truncated) }
+}
+
+/**
+ * Query the source for a whole tile and year span and store the result,
+ * unless it is incomplete: a truncated tile would hide events from every later search
+ */
+function fetchTile(
+  cacheStore: TileCacheStore,
+  source: EventSource,
+  tile: Tile,
+  span: { startYear: number; endYear: number },
+  languages: string[],
+  budget: SplitBudget
+): Promise<WikidataItem[]> {
+  const key = [source.name, languages.join(','), tile.key, span.startYear, span.endYear].join('|')
+  const pending = pendingTiles.get(key)
+  if (pending) {
+    return pending
+  }
+
+  const fetching = (async () => {
+    const { items, truncated } = await queryTile(source, tile, span, languages, budget)
+    if (truncated) {
+      console.warn(`Tile cache (${cacheStore.name}): tile ${tile.key} is still truncated after splitting, not caching it`)
+      return items
+    }
+
+    try {
+      await cacheStore.save([{
+        source: source.name,
+        languages: languages.join(','),
+        tile,
+        ...span,
+        items,
+        expiresAt: new Date(Date.now() + TILE_CACHE_CONFIG.TTL_SECONDS * 1000)
+      }])
+    } catch (error) {
+      // The results are still good; the tile is simply fetched again next time
+      console.warn(`Tile cache (${cacheStore.name}): could not store tile ${tile.key}:`, error)
+    }
+    return items
+  })()
+
+  pendingTiles.set(key, fetching)
+  return fetching.finally(() => pendingTiles.delete(key))
+}
+
+/**
+ * Tiles that a query for a circle, or a box, is assembled from
+ */
+export function getQueryTiles({ lat, lng, radius, bbox }: Pick<EventQuery, 'lat' | 'lng' | 'radius' | 'bbox'>): Tile[] {
+  return getCoveringTiles(bbox ?? getBufferedBoundingBox([[lng, lat]], radius))
+}
+
+/**
+ * Items of a set of tiles within a year range, taken from the cache where possible and
+ * fetched from the event source otherwise. At most `maxQueries` event source queries are
+ * sent, counting those for the children of truncated tiles; the search is rejected with
+ * a ValidationError, before querying anything, if its uncached tiles alone need more.
+ */
+export async function queryTiles(
+  source: EventSource,
+  tiles: Tile[],
+  { startYear, endYear, languages }: Pick<EventQuery, 'startYear' | 'endYear' | 'languages'>,
+  maxQueries = Infinity
+): Promise<WikidataItem[]> {
+  const cacheStore = getTileCacheStore()
+  const span = getYearSpan(startYear, endYear)
+
+  let cached = new Map<string, WikidataItem[]>()
+  if (cacheStore) {
+    // Counted for warming popular tiles; a search never waits for or fails on it
+    cacheStore.recordSearch(source.name, languages.join(','), tiles.map((tile) => tile.key)).catch((error) => {
+      console.warn(`Tile cache (${cacheStore.name}): could not record search:`, error)
+    })
+
+    try {
+      cached = await cacheStore.find(source.name, languages.join(','), tiles, startYear, endYear)
+    } catch (error) {
+      console.warn(`Tile cache (${cacheStore.name}) unavailable, querying the event source directly:`, error)
+    }
+  }
+
+  const missing = tiles.filter((tile) => !cached.has(tile.key))
+  console.log(`Tile cache (${cacheStore?.name ?? 'none'}): ${tiles.length} tiles at zoom ${tiles[0].key.split('/')[0]}, ${tiles.length - missing.length} cached`)
+  if (missing.length > maxQueries) {
+    throw new ValidationError(
+      `Search covers ${missing.length} uncached map tiles, more than the ${maxQueries} one request may fetch. Shorten it, or search part of it first.`,
+      'too_many_tiles',
+      { tiles: tiles.length, uncached: missing.length, max: maxQueries }
+    )
+  }
+
+  // Whatever the uncached tiles leave of `maxQueries` may go to splitting them
+  const budget: SplitBudget = { remaining: Math.min(TILE_CACHE_CONFIG.MAX_SPLIT_QUERIES, maxQueries - missing.length) }
+  const fetched = await Promise.all(missing.map((tile) => cacheStore
+    ? fetchTile(cacheStore, source, tile, span, languages, budget)
+    : queryTile(source, tile, span, languages, budget).then(({ items }) => items)))
+
+  // Neighbouring tiles share their edges, so an event on an edge can come from both
+  const items = new Map<string, WikidataItem>()
+  for (const item of [...cached.values(), ...fetched].flat()) {
+    const year = parseEventDate(item.date.value)?.year
+    if (items.has(item.item.value) || year === undefined || year < startYear || year > endYear) continue
+    items.set(item.item.value, item)
+  }
+  return Array.from(items.values())
+}
+
+/**
+ * Query the event source through the tile cache. Returns the same items the
+ * source would for this query: restricted to the circle (or box) and years,
+ * with `distance` measured from lat/lng.
+ */
+export async function queryEventsWithTileCache(source: EventSource, query: EventQuery): Promise<WikidataItem[]> {
+  if (!getTileCacheStore()) {
+    const { items, truncated } = await source.queryEvents(query)
+    if (truncated) {
+      console.warn(`Event source ${source.name} truncated the results for this search`)
+    }
+    return items
+  }
+
+  const { lat, lng, radius, bbox } = query
+  const items = await queryTiles(source, getQueryTiles(query), query)
+
+  return items.flatMap((item) => {
+    const itemLat = parseFloat(item.lat.value)
+    const itemLng = parseFloat(item.lng.value)
+    const distance = calculateDistance(lat, lng, itemLat, itemLng)
+
+    const inArea = bbox ? isInBoundingBox(bbox, itemLat, itemLng) : distance <= radius
+    return inArea ? [{ ...item, distance: { value: distance.toString() } }] : []
+  })
+}
+
+/**
+ * Make sure a tile is cached for a time range and language chain, fetching it from the
+ * event source unless it already is. With `refresh`, cached tiles are fetched again.
+ */
+export async function warmTile(
+  source: EventSource,
+  tile: Tile,
+  { startYear, endYear, languages }: Pick<EventQuery, 'startYear' | 'endYear' | 'languages'>,
+  refresh: boolean
+): Promise<{ status: 'cached' | 'fetched'; items: number }> {
+  const cacheStore = getTileCacheStore()
+  if (!cacheStore) {
+    throw new Error('The tile cache is turned off (TILE_CACHE_STORE=none).')
+  }
+
+  const span = getYearSpan(startYear, endYear)
+  if (!refresh) {
+    const cached = await cacheStore.find(source.name, languages.join(','), [tile], span.startYear, span.endYear)
+    const items = cached.get(tile.key)
+    if (items) {
+      return { status: 'cached', items: items.length }
+    }
+  }
+
+  const items = await fetchTile(cacheStore, source, tile, span, languages, { remaining: TILE_CACHE_CONFIG.MAX_SPLIT_QUERIES })
+  return { status: 'fetched', items: items.length }
+}
+
+/**
+ * Remove cached tiles, returning how many entries were removed
+ */
+export async function invalidateTileCache(invalidation: TileCacheInvalidation): Promise<number> {
+  const cacheStore = getTileCacheStore()
+  return cacheStore ? cacheStore.invalidate(invalidation) : 0
+}
@@ -0,0 +1,117 @@
+import { createClient } from '@supabase/supabase-js'
+import { WikidataItem } from '@/types/events'
+import { TileCacheEntry, TileCacheInvalidation, TileCacheStore, TileSearchCount } from './types'
+
+/**
+ * Tile cache in a Supabase (Postgres) table, shared by every server instance.
+ * Created by the migrations in supabase/migrations; the tables are not exposed
+ * to browsers, so this store needs the service role key. Search counts live in
+ * `<table>_searches` and are incremented by the record_tile_searches function.
+ */
+export function createSupabaseTileCacheStore(url: string, serviceRoleKey: string, table: string): TileCacheStore {
+  const searchesTable = `${table}_searches`
+
+  const client = createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+
+  return {
+    name: `supabase:${table}`,
+
+    async find(source, languages, tiles, startYear, endYear) {
+      const { data, error } = await client
+        .from(table)
+        .select('tile, items')
+        .eq('source', source)
+        .eq('languages', languages)
+        .in('tile', tiles.map((tile) => tile.key))
+        .lte('start_year', startYear)
+        .gte('end_year', endYear)
+        .gt('expires_at', new Date().toISOString())
+
+      if (error) {
+        throw new Error(`Tile cache lookup failed: ${error.message}`)
+      }
+
+      const found = new Map<string, WikidataItem[]>()
+      for (const row of data as { tile: string; items: WikidataItem[] }[]) {
+        found.set(row.tile, row.items)
+      }
+      return found
+    },
+
+    async save(entries: TileCacheEntry[]) {
+      const { error } = await client.from(table).upsert(entries.map((entry) => ({
+        source: entry.source,
+        languages: entry.languages,
+        tile: entry.tile.key,
+        start_year: entry.startYear,
+        end_year: entry.endYear,
+        min_lng: entry.tile.bbox.minLng,
+        min_lat: entry.tile.bbox.minLat,
+        max_lng: entry.tile.bbox.maxLng,
+        max_lat: entry.tile.bbox.maxLat,
+        items: entry.items,
+        created_at: new Date().toISOString(),
+        expires_at: entry.expiresAt.toISOString()
+      })))
+
+      if (error) {
+        throw new Error(`Tile cache write failed: ${error.message}`)
+      }
+    },
+
+    async invalidate({ source, bbox, expiredOnly }: TileCacheInvalidation) {
+      // PostgREST refuses deletes without a filter, so always filter on something
+      let query = client.from(table).delete({ count: 'exact' }).not('tile', 'is', null)
+      if (source) {
+        query = query.eq('source', source)
+      }
+      if (bbox) {
+        query = query
+          .lt('min_lng', bbox.maxLng)
+          .gt('max_lng', bbox.minLng)
+          .lt('min_lat', bbox.maxLat)
+          .gt('max_lat', bbox.minLat)
+      }
+      if (expiredOnly) {
+        query = query.lte('expires_at', new Date().toISOString())
+      }
+
+      const { count, error } = await query
+      if (error) {
+        throw new Error(`Tile cache invalidation failed: ${error.message}`)
+      }
+      return count ?? 0
+    },
+
+    async recordSearch(source, languages, tileKeys) {
+      const { error } = await client.rpc('record_tile_searches', {
+        p_source: source,
+        p_languages: languages,
+        p_tiles: tileKeys
+      })
+      if (error) {
+        throw new Error(`Recording tile searches failed: ${error.message}`)
+      }
+    },
+
+    async getPopularTiles(source, limit) {
+      const { data, error } = await client
+        .from(searchesTable)
+        .select('languages, tile, search_count')
+        .eq('source', source)
+        .order('search_count', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        throw new Error(`Popular tile lookup failed: ${error.message}`)
+      }
+      return (data as { languages: string; tile: string; search_count: number }[]).map((row): TileSearchCount => ({
+        languages: row.languages,
+        tile: row.tile,
+        searches: row.search_count
+      }))
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { TILE_CACHE_CONFIG } from '@/lib/config'
+import { BoundingBox } from '@/lib/geo'
+import { Tile } from './types'
+
+// Web Mercator stops at this latitude; tiles beyond it do not exist
+const MAX_LATITUDE = 85.0511
+
+function lngToTileX(lng: number, zoom: number): number {
+  const x = Math.floor(((lng + 180) / 360) * 2 ** zoom)
+  return Math.min(Math.max(x, 0), 2 ** zoom - 1)
+}
+
+function latToTileY(lat: number, zoom: number): number {
+  const radians = (Math.min(Math.max(lat, -MAX_LATITUDE), MAX_LATITUDE) * Math.PI) / 180
+  const y = Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * 2 ** zoom)
+  return Math.min(Math.max(y, 0), 2 ** zoom - 1)
+}
+
+function tileXToLng(x: number, zoom: number): number {
+  return (x / 2 ** zoom) * 360 - 180
+}
+
+function tileYToLat(y: number, zoom: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** zoom
+  return (180 / Math.PI) * Math.atan(Math.sinh(n))
+}
+
+export function getTile(zoom: number, x: number, y: number): Tile {
+  return {
+    key: `${zoom}/${x}/${y}`,
+    bbox: {
+      minLng: tileXToLng(x, zoom),
+      minLat: tileYToLat(y + 1, zoom),
+      maxLng: tileXToLng(x + 1, zoom),
+      maxLat: tileYToLat(y, zoom)
+    }
+  }
+}
+
+/**
+ * The four tiles one zoom level finer that make up a tile
+ */
+export function getChildTiles(tile: Tile): Tile[] {
+  const [zoom, x, y] = tile.key.split('/').map(Number)
+  return [
+    getTile(zoom + 1, 2 * x, 2 * y),
+    getTile(zoom + 1, 2 * x + 1, 2 * y),
+    getTile(zoom + 1, 2 * x, 2 * y + 1),
+    getTile(zoom + 1, 2 * x + 1, 2 * y + 1)
+  ]
+}
+
+/**
+ * Parse a "z/x/y" tile key, or return null if it is not a tile within the cached zoom range
+ */
+export function parseTileKey(key: string): Tile | null {
+  const match = key.match(/^(\d+)\/(\d+)\/(\d+)$/)
+  if (!match) return null
+
+  const [zoom, x, y] = match.slice(1).map(Number)
+  if (zoom < TILE_CACHE_CONFIG.MIN_ZOOM || zoom > TILE_CACHE_CONFIG.MAX_ZOOM || x >= 2 ** zoom || y >= 2 ** zoom) {
+    return null
+  }
+  return getTile(zoom, x, y)
+}
+
+/**
+ * Tiles covering a box, at the finest zoom where they number at most MAX_TILES_PER_QUERY.
+ * Large boxes fall back to MIN_ZOOM tiles however many that takes.
+ */
+export function getCoveringTiles(bbox: BoundingBox): Tile[] {
+  const getRange = (zoom: number) => ({
+    minX: lngToTileX(bbox.minLng, zoom),
+    maxX: lngToTileX(bbox.maxLng, zoom),
+    // Tile rows count down from the north
+    minY: latToTileY(bbox.maxLat, zoom),
+    maxY: latToTileY(bbox.minLat, zoom)
+  })
+
+  let zoom: number = TILE_CACHE_CONFIG.MAX_ZOOM
+  let range = getRange(zoom)
+  while (
+    zoom > TILE_CACHE_CONFIG.MIN_ZOOM &&
+    (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1) > TILE_CACHE_CONFIG.MAX_TILES_PER_QUERY
+  ) {
+    zoom--
+    range = getRange(zoom)
+  }
+
+  const tiles: Tile[] = []
+  for (let x = range.minX; x <= range.maxX; x++) {
+    for (let y = range.minY; y <= range.maxY; y++) {
+      tiles.push(getTile(zoom, x, y))
+    }
+  }
+  return tiles
+}
+
+/**
+ * Widen a year range outwards to whole YEAR_SPANs, so that nearby ranges are fetched and cached as one
+ */
+export function getYearSpan(startYear: number, endYear: number): { startYear: number; endYear: number } {
+  const span = TILE_CACHE_CONFIG.YEAR_SPAN
+  return {
+    startYear: Math.floor(startYear / span) * span,
+    endYear: Math.ceil((endYear + 1) / span) * span - 1
+  }
+}
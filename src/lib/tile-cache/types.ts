@@ -0,0 +1,59 @@
+import { WikidataItem } from '@/types/events'
+import { BoundingBox } from '@/lib/geo'
+
+/**
+ * An XYZ map tile, the unit that event source results are cached in
+ */
+export interface Tile {
+  key: string // "z/x/y"
+  bbox: BoundingBox
+}
+
+/**
+ * Events of one tile from one event source, in one language chain and year span
+ */
+export interface TileCacheEntry {
+  source: string
+  languages: string // Comma-separated fallback chain, e.g. "de,en"
+  tile: Tile
+  // Inclusive years in astronomical numbering, as in EventQuery
+  startYear: number
+  endYear: number
+  items: WikidataItem[]
+  expiresAt: Date
+}
+
+/**
+ * Which cached tiles to remove: all of them, those of one event source,
+ * those intersecting a box, or only the expired ones
+ */
+export interface TileCacheInvalidation {
+  source?: string
+  bbox?: BoundingBox
+  expiredOnly?: boolean
+}
+
+/**
+ * How often searches have covered a tile in one language chain
+ */
+export interface TileSearchCount {
+  languages: string
+  tile: string // "z/x/y"
+  searches: number
+}
+
+/**
+ * Persistent storage for cached tiles
+ */
+export interface TileCacheStore {
+  name: string
+  // Items of each requested tile, keyed by tile key, from unexpired entries whose year span covers the requested one
+  find(source: string, languages: string, tiles: Tile[], startYear: number, endYear: number): Promise<Map<string, WikidataItem[]>>
+  save(entries: TileCacheEntry[]): Promise<void>
+  // Remove matching entries and return how many were removed
+  invalidate(invalidation: TileCacheInvalidation): Promise<number>
+  // Count a search over these tiles, for warming the most searched tiles
+  recordSearch(source: string, languages: string, tileKeys: string[]): Promise<void>
+  // Most searched tiles of a source, most searches first
+  getPopularTiles(source: string, limit: number): Promise<TileSearchCount[]>
+}
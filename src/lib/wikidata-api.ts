@@ -0,0 +1,126 @@
+/**
+ * Client for the Wikibase action API (https://www.wikidata.org/w/api.php)
+ *
+ * SPARQL is used for searching; this API is used to read whole entities,
+ * which is a single cheap request instead of a query that multiplies rows
+ * for every multi-valued property.
+ */
+
+import { SPARQL_CONFIG, WIKIDATA_API_CONFIG } from '@/lib/config'
+import { pickLanguage } from '@/lib/languages'
+import { parseRetryAfter } from '@/lib/sparql-client'
+import { UpstreamError, UpstreamRateLimitError, UpstreamTimeoutError } from '@/lib/errors'
+
+/**
+ * A statement value; only the data types read by this app are typed
+ */
+export type WikibaseDataValue =
+  | { type: 'wikibase-entityid'; value: { id: string } }
+  | { type: 'time'; value: { time: string; precision: number } }
+  | { type: 'globecoordinate'; value: { latitude: number; longitude: number } }
+  | { type: 'string'; value: string }
+  | { type: string; value: unknown }
+
+export interface WikibaseStatement {
+  mainsnak: {
+    snaktype: 'value' | 'somevalue' | 'novalue'
+    datavalue?: WikibaseDataValue
+  }
+  rank: 'preferred' | 'normal' | 'deprecated'
+}
+
+/**
+ * An entity as returned by wbgetentities with formatversion=2
+ */
+export interface WikibaseEntity {
+  id: string
+  missing?: boolean
+  labels?: Record<string, { language: string; value: string }>
+  descriptions?: Record<string, { language: string; value: string }>
+  claims?: Record<string, WikibaseStatement[]>
+  sitelinks?: Record<string, { site: string; title: string; url?: string }>
+}
+
+/**
+ * Call the action API with the given parameters and return the parsed JSON.
+ * Timeouts, rate limits and outages are thrown as the matching upstream API errors.
+ */
+export async function fetchWikidataApi<T>(params: Record<string, string>): Promise<T> {
+  const url = `${WIKIDATA_API_CONFIG.ENDPOINT}?${new URLSearchParams({ ...params, format: 'json', formatversion: '2' })}`
+  let response: Response
+  try {
+    response = await fetch(url, {
+      headers: {
+        'User-Agent': SPARQL_CONFIG.USER_AGENT,
+        'Accept': 'application/json'
+      },
+      signal: AbortSignal.timeout(WIKIDATA_API_CONFIG.TIMEOUT_MS)
+    })
+  } catch (error) {
+    console.error('Wikidata API network error:', error)
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw new UpstreamTimeoutError('Wikidata did not respond in time - please try again')
+    }
+    throw new UpstreamError('Wikidata is experiencing issues - please try again later')
+  }
+
+  if (response.status === 429) {
+    throw new UpstreamRateLimitError(
+      'Too many requests to Wikidata - please wait before trying again',
+      parseRetryAfter(response.headers.get('Retry-After'))
+    )
+  }
+  if (response.status >= 500) {
+    throw new UpstreamError('Wikidata is experiencing issues - please try again later', parseRetryAfter(response.headers.get('Retry-After')))
+  }
+  if (!response.ok) {
+    throw new Error(`Wikidata API request failed: ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  if (data.error) {
+    throw new Error(`Wikidata API error: ${data.error.code} - ${data.error.info}`)
+  }
+  return data as T
+}
+
+/**
+ * Fetch entities by Q-id in batches, keyed by the requested id.
+ * Missing entities are left out; redirected ids map to their target entity.
+ */
+export async function getEntities(ids: string[], props: string[], languages: string[]): Promise<Map<string, WikibaseEntity>> {
+  const uniqueIds = Array.from(new Set(ids))
+  const batches: string[][] = []
+  for (let i = 0; i < uniqueIds.length; i += WIKIDATA_API_CONFIG.MAX_IDS_PER_REQUEST) {
+    batches.push(uniqueIds.slice(i, i + WIKIDATA_API_CONFIG.MAX_IDS_PER_REQUEST))
+  }
+
+  const entities = new Map<string, WikibaseEntity>()
+  const responses = await Promise.all(batches.map((batch) =>
+    fetchWikidataApi<{ entities: Record<string, WikibaseEntity> }>({
+      action: 'wbgetentities',
+      ids: batch.join('|'),
+      props: props.join('|'),
+      languages: languages.join('|')
+    })
+  ))
+
+  for (const { entities: batchEntities } of responses) {
+    for (const [id, entity] of Object.entries(batchEntities)) {
+      if (!entity.missing) {
+        entities.set(id, entity)
+      }
+    }
+  }
+  return entities
+}
+
+/**
+ * Label or description of an entity in the first language of the chain that has one
+ */
+export function pickTerm(
+  terms: Record<string, { value: string }> | undefined,
+  languages: string[]
+): string | undefined {
+  return pickLanguage(terms, languages)?.value
+}
@@ -1,3 +1,58 @@
+/**
+ * Curated event categories that Wikidata classes are mapped into
+ */
+export type EventCategoryKey =
+  | 'battle'
+  | 'disaster'
+  | 'building'
+  | 'treaty'
+  | 'birth'
+  | 'political'
+  | 'culture'
+  | 'sports'
+  | 'other'
+
+/**
+ * How precisely an event date is known
+ */
+export type DatePrecision = 'day' | 'month' | 'year' | 'decade' | 'century'
+
+/**
+ * How a related event is connected to the selected event, from the related event's side:
+ * the selected event is part of it ("part-of"), it is part of the selected event ("has-part"),
+ * both are part of the same larger event ("sibling"), they share a conflict (P607) or a
+ * participant (P710), it came directly before ("previous") or after ("next"), or it is close by
+ */
+export type EventRelation =
+  | 'part-of'
+  | 'has-part'
+  | 'sibling'
+  | 'same-conflict'
+  | 'same-participant'
+  | 'previous'
+  | 'next'
+  | 'nearby'
+
+/**
+ * A Wikidata "instance of" (P31) class of an event and its taxonomy category
+ */
+export interface EventCategory {
+  id: string // Q-id of the class, e.g. "Q178561"
+  label?: string // English label of the class, e.g. "battle"
+  category: EventCategoryKey
+}
+
+/**
+ * Credit for an event image, from the Commons file description
+ */
+export interface ImageAttribution {
+  author?: string // Plain text, e.g. "John Smith"
+  license?: string // Short name, e.g. "CC BY-SA 4.0" or "Public domain"
+  licenseUrl?: string
+  filePageUrl: string // Description page of the file, which has the full credit
+  freeLicense: boolean // False if the file has no known free license
+}
+
 /**
  * Represents a historical event with location and temporal data
  * Updated to match GeoJSON Feature structure from API
@@ -12,10 +67,17 @@ export interface HistoricalEvent {
     id: string
     label: string
     description?: string
-    date: string
-    distance?: number
+    date: string // YYYY-MM-DD, astronomical year numbering ("-0043-03-15" is 44 BC)
+    startDate?: string // Start of the period for events that span one, otherwise the same as date
+    endDate?: string // End of the period (P582), if known
+    precision?: DatePrecision // Precision of the dates, "day" if omitted
+    distance?: number // km from the search center, or from the route for corridor searches
+    routePosition?: number // km along the route, corridor searches only
+    relation?: EventRelation // Related events only
     wikipediaUrl?: string
     imageUrl?: string
+    imageAttribution?: ImageAttribution // Credit for imageUrl, for Commons and Wikipedia images
+    categories?: EventCategory[]
   }
 }
 
@@ -32,13 +94,39 @@ export interface EventFeature {
     id: string
     label: string
     description?: string
-    date: string
-    distance?: number
+    date: string // YYYY-MM-DD, astronomical year numbering ("-0043-03-15" is 44 BC)
+    startDate?: string // Start of the period for events that span one, otherwise the same as date
+    endDate?: string // End of the period (P582), if known
+    precision?: DatePrecision // Precision of the dates, "day" if omitted
+    distance?: number // km from the search center, or from the route for corridor searches
+    routePosition?: number // km along the route, corridor searches only
+    relation?: EventRelation // Related events only
     wikipediaUrl?: string
     imageUrl?: string
+    imageAttribution?: ImageAttribution // Credit for imageUrl, for Commons and Wikipedia images
+    categories?: EventCategory[]
   }
 }
 
+/**
+ * Sort and filter options the UI sends to /api/events
+ * A false flag means "don't filter", not "only events without"
+ */
+export interface EventListOptions {
+  sort: 'distance' | 'date' | 'relevance' | 'route'
+  order: 'asc' | 'desc'
+  hasImage: boolean
+  hasWikipedia: boolean
+  // Only events that happened on today's date in earlier years
+  onThisDay: boolean
+}
+
+/**
+ * How the map picks the area to search: a clicked point with a radius, the visible viewport,
+ * or a corridor along a route drawn by clicking
+ */
+export type SearchMode = 'point' | 'viewport' | 'route'
+
 /**
  * GeoJSON Feature for coordinates-only response
  */
@@ -59,6 +147,8 @@ export interface CoordinatesFeature {
 export interface EventsResponse {
   type: 'FeatureCollection'
   features: EventFeature[]
+  next?: string | null // Cursor for the next page, null on the last page
+  total?: number // Number of matching events across all pages
 }
 
 /**
@@ -67,6 +157,83 @@ export interface EventsResponse {
 export interface CoordinatesResponse {
   type: 'FeatureCollection'
   features: CoordinatesFeature[]
+  next?: string | null
+  total?: number
+}
+
+/**
+ * A Wikidata item referenced by an event, such as a participant or the war it was part of
+ */
+export interface EntityReference {
+  id: string // Q-id, e.g. "Q362"
+  label?: string // Label in the requested language chain, if it has one
+}
+
+/**
+ * One date statement of an event
+ */
+export interface EventDetailDate {
+  property: 'P585' | 'P580' | 'P582' | 'P571' | 'P569' // point in time, start time, end time, inception, date of birth
+  date: string // YYYY-MM-DD, astronomical year numbering
+  precision: DatePrecision
+}
+
+/**
+ * A page about the event on a Wikimedia site
+ */
+export interface EventSitelink {
+  site: string // Wikimedia site id, e.g. "enwiki" or "commonswiki"
+  title: string
+  url: string
+}
+
+/**
+ * Everything known about a single event, as returned by /api/events/[qid]
+ */
+export interface EventDetail {
+  id: string // Entity URI, the same id as in event features
+  qid: string // e.g. "Q10806"
+  label: string
+  description?: string
+  dates: EventDetailDate[]
+  participants: EntityReference[] // P710
+  locations: EntityReference[] // P276
+  partOf: EntityReference[] // P361
+  follows: EntityReference[] // P155
+  followedBy: EntityReference[] // P156
+  images: string[] // Commons file URLs (P18)
+  coordinates: [number, number][] // [lng, lat] (P625)
+  categories: EventCategory[]
+  wikipediaUrl?: string // Article in the first language of the chain that has one
+  sitelinks: EventSitelink[]
+}
+
+/**
+ * A group of nearby events returned by /api/events/clusters in place of the individual events
+ */
+export interface ClusterFeature {
+  type: 'Feature'
+  geometry: {
+    type: 'Point'
+    coordinates: [number, number] // [lng, lat], centroid of the clustered events
+  }
+  properties: {
+    cluster: true
+    id: string // Stable for a given zoom level and grid cell
+    count: number
+    label: string // Label of the most relevant event in the cluster
+    expansionZoom: number // Zoom level at which the cluster splits up
+  }
+}
+
+/**
+ * GeoJSON FeatureCollection response from /api/events/clusters: clusters and unclustered events
+ */
+export interface ClustersResponse {
+  type: 'FeatureCollection'
+  features: (ClusterFeature | EventFeature)[]
+  zoom: number
+  total: number // Number of matching events, clustered or not
 }
 
 /**
@@ -83,7 +250,16 @@ export interface WikidataItem {
     value: string
   }
   date: {
-    value: string // ISO date string
+    value: string // YYYY-MM-DD, astronomical year numbering
+  }
+  startDate?: {
+    value: string
+  }
+  endDate?: {
+    value: string
+  }
+  datePrecision?: {
+    value: DatePrecision
   }
   lat: {
     value: string
@@ -100,4 +276,9 @@ export interface WikidataItem {
   imageUrl?: {
     value: string
   }
+  // "instance of" (P31) classes, collected from all result rows of the item
+  instances?: {
+    id: string // Q-id
+    label?: string
+  }[]
 } 
\ No newline at end of file
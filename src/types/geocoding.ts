@@ -0,0 +1,28 @@
+/**
+ * Where a place search result came from: the bundled gazetteer or Mapbox geocoding
+ */
+export type GeocodeSource = 'gazetteer' | 'mapbox'
+
+/**
+ * A place found by name through /api/geocode
+ */
+export interface GeocodeResult {
+  id: string // e.g. "geonames:4930956", "gazetteer:Boston,US" or a Mapbox id
+  name: string
+  label: string // Name with its region and country, e.g. "Boston, Massachusetts, US"
+  lat: number
+  lng: number
+  // Extent of the place as [minLng, minLat, maxLng, maxLat], when the provider knows it
+  bbox?: [number, number, number, number]
+  population?: number
+  source: GeocodeSource
+}
+
+/**
+ * Response of /api/geocode, best matches first
+ */
+export interface GeocodeResponse {
+  results: GeocodeResult[]
+  // Attribution the provider requires to be shown with its results
+  attribution: string
+}
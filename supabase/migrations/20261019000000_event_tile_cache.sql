@@ -0,0 +1,23 @@
+-- Persistent cache of event source results per map tile and year span, see src/lib/tile-cache
+CREATE TABLE IF NOT EXISTS event_tile_cache (
+  source TEXT NOT NULL,            -- Event source name, e.g. "wikidata"
+  languages TEXT NOT NULL,         -- Language fallback chain, e.g. "de,en"
+  tile TEXT NOT NULL,              -- XYZ tile, "z/x/y"
+  start_year INTEGER NOT NULL,     -- Inclusive year span, astronomical numbering
+  end_year INTEGER NOT NULL,
+  min_lng DOUBLE PRECISION NOT NULL,
+  min_lat DOUBLE PRECISION NOT NULL,
+  max_lng DOUBLE PRECISION NOT NULL,
+  max_lat DOUBLE PRECISION NOT NULL,
+  items JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (source, languages, tile, start_year, end_year)
+);
+
+-- Invalidation by area and by age
+CREATE INDEX IF NOT EXISTS event_tile_cache_bounds_idx ON event_tile_cache (source, min_lng, max_lng, min_lat, max_lat);
+CREATE INDEX IF NOT EXISTS event_tile_cache_expires_at_idx ON event_tile_cache (expires_at);
+
+-- Only the server, using the service role key, reads and writes the cache
+ALTER TABLE event_tile_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,29 @@
+-- How often searches covered each cached tile, used to warm the most searched tiles
+CREATE TABLE IF NOT EXISTS event_tile_cache_searches (
+  source TEXT NOT NULL,
+  languages TEXT NOT NULL,
+  tile TEXT NOT NULL,              -- XYZ tile, "z/x/y"
+  search_count BIGINT NOT NULL DEFAULT 0,
+  last_searched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (source, languages, tile)
+);
+
+CREATE INDEX IF NOT EXISTS event_tile_cache_searches_count_idx ON event_tile_cache_searches (source, search_count DESC);
+
+ALTER TABLE event_tile_cache_searches ENABLE ROW LEVEL SECURITY;
+
+-- Count one search over some tiles in a single statement
+CREATE OR REPLACE FUNCTION record_tile_searches(p_source TEXT, p_languages TEXT, p_tiles TEXT[])
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO event_tile_cache_searches (source, languages, tile, search_count, last_searched_at)
+  SELECT p_source, p_languages, tile, 1, NOW() FROM unnest(p_tiles) AS tile
+  ON CONFLICT (source, languages, tile) DO UPDATE
+    SET search_count = event_tile_cache_searches.search_count + 1,
+        last_searched_at = NOW();
+$$;
+
+-- Only the server, using the service role key, may count searches
+REVOKE ALL ON FUNCTION record_tile_searches(TEXT, TEXT, TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_tile_searches(TEXT, TEXT, TEXT[]) TO service_role;